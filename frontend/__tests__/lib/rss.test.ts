@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import * as cheerio from 'cheerio'
+import { createFeed } from '@/lib/rss.mjs'
+
+const siteUrl = 'https://example.com'
+
+// Markup of a rendered article page, as fetched by the feed.xml route
+function articlePage(title: string, date: string, content: string) {
+  return `<!DOCTYPE html>
+<html>
+  <body>
+    <article>
+      <header>
+        <h1>${title}</h1>
+        <time datetime="${date}">${date}</time>
+      </header>
+      <div data-mdx-content="true">${content}</div>
+    </article>
+  </body>
+</html>`
+}
+
+// Parses the RSS output back, so escaping is checked by a real XML reader
+function parseFeed(articles: { id: string; html: string }[]) {
+  return cheerio.load(createFeed(siteUrl, articles).rss2(), { xml: true })
+}
+
+describe('RSS Feed', () => {
+  const articles = [
+    {
+      id: 'aws-cdk-best-practices',
+      html: articlePage(
+        'AWS CDK Best Practices',
+        '2024-03-15',
+        '<p>Stacks and constructs</p>',
+      ),
+    },
+    {
+      id: 'cicd-github-actions',
+      html: articlePage(
+        'Tips &amp; Tricks for &lt;GitHub&gt; Actions',
+        '2024-02-20',
+        '<p>Build &amp; deploy with <code>if: a &lt; b</code></p>',
+      ),
+    },
+  ]
+
+  describe('Escaping', () => {
+    it('keeps special characters in titles', () => {
+      const $ = parseFeed(articles)
+
+      expect($('item > title').eq(1).text()).toBe(
+        'Tips & Tricks for <GitHub> Actions',
+      )
+    })
+
+    it('keeps the article HTML intact in the content', () => {
+      const $ = parseFeed(articles)
+
+      expect($('item').eq(1).find('content\\:encoded').text()).toBe(
+        '<p>Build &amp; deploy with <code>if: a &lt; b</code></p>',
+      )
+    })
+  })
+
+  describe('Ordering', () => {
+    it('lists articles in the order they are given', () => {
+      const $ = parseFeed(articles)
+
+      expect(
+        $('item > link')
+          .map((_, link) => $(link).text())
+          .get(),
+      ).toEqual([
+        'https://example.com/articles/aws-cdk-best-practices',
+        'https://example.com/articles/cicd-github-actions',
+      ])
+    })
+
+    it('dates each item from the article time element', () => {
+      const $ = parseFeed(articles)
+
+      expect(new Date($('item > pubDate').first().text())).toEqual(
+        new Date('2024-03-15'),
+      )
+    })
+  })
+
+  describe('Absolute URLs', () => {
+    it('links items to the public site, not the fetched origin', () => {
+      const $ = parseFeed(articles)
+
+      $('item').each((_, item) => {
+        expect($(item).find('link').text()).toMatch(
+          /^https:\/\/example\.com\/articles\//,
+        )
+        expect($(item).find('guid').text()).toBe($(item).find('link').text())
+      })
+    })
+
+    it('links the channel and its image to the site', () => {
+      const $ = parseFeed(articles)
+
+      expect($('channel > link').text()).toBe(siteUrl)
+      expect($('channel > image > url').text()).toBe(
+        'https://example.com/favicon.ico',
+      )
+    })
+  })
+
+  it('fails on a page without an article date', () => {
+    expect(() =>
+      createFeed(siteUrl, [
+        {
+          id: 'draft',
+          html: '<article><h1>Draft</h1><div data-mdx-content></div></article>',
+        },
+      ]),
+    ).toThrow()
+  })
+})
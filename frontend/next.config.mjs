@@ -2,15 +2,33 @@ import rehypePrism from '@mapbox/rehype-prism'
 import nextMDX from '@next/mdx'
 import remarkGfm from 'remark-gfm'
 
+// STATIC_EXPORT=true builds plain files for S3 + CloudFront hosting
+// (yarn build:static). Route handlers are the only .ts files in src/app and
+// cannot be exported: feed.xml is prebuilt by scripts/build-static-feed.mjs
+// and /api/health is answered by a CloudFront Function.
+const staticExport = process.env.STATIC_EXPORT === 'true'
+
+// feed is ESM-only, next/jest only transforms node_modules listed here
+const transpilePackages = ['feed']
+
 /** @type {import('next').NextConfig} */
-const nextConfig = {
-  pageExtensions: ['js', 'jsx', 'ts', 'tsx', 'mdx'],
-  outputFileTracingIncludes: {
-    '/articles/*': ['./src/app/articles/**/*.mdx'],
-  },
-  // Keep standalone for server components
-  output: 'standalone',
-}
+const nextConfig = staticExport
+  ? {
+      transpilePackages,
+      pageExtensions: ['js', 'jsx', 'tsx', 'mdx'],
+      output: 'export',
+      // No image optimizer without a server, images are served as imported
+      images: { unoptimized: true },
+    }
+  : {
+      transpilePackages,
+      pageExtensions: ['js', 'jsx', 'ts', 'tsx', 'mdx'],
+      outputFileTracingIncludes: {
+        '/articles/*': ['./src/app/articles/**/*.mdx'],
+      },
+      // Keep standalone for server components
+      output: 'standalone',
+    }
 
 const withMDX = nextMDX({
   extension: /\.mdx?$/,
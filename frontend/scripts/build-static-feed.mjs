@@ -0,0 +1,31 @@
+// Writes out/feed.xml after a static export (yarn build:static). Route
+// handlers are not exported, so the feed is rendered from the exported
+// article pages the same way the feed.xml route renders it at runtime.
+import { readFile, readdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { createFeed } from '../src/lib/rss.mjs'
+
+let siteUrl = process.env.NEXT_PUBLIC_SITE_URL
+
+if (!siteUrl) {
+  throw Error('Missing NEXT_PUBLIC_SITE_URL environment variable')
+}
+
+let outDir = path.join(import.meta.dirname, '..', 'out')
+
+let articleIds = (await readdir(path.join(outDir, 'articles')))
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => file.replace(/\.html$/, ''))
+
+let articles = await Promise.all(
+  articleIds.map(async (id) => ({
+    id,
+    html: await readFile(path.join(outDir, 'articles', `${id}.html`), 'utf8'),
+  })),
+)
+
+await writeFile(
+  path.join(outDir, 'feed.xml'),
+  createFeed(siteUrl, articles).rss2(),
+)
+console.log(`Wrote feed.xml with ${articles.length} articles`)
@@ -1,6 +1,4 @@
-import assert from 'assert'
-import * as cheerio from 'cheerio'
-import { Feed } from 'feed'
+import { createFeed } from '@/lib/rss.mjs'
 
 export async function GET(req: Request) {
   let siteUrl = process.env.NEXT_PUBLIC_SITE_URL
@@ -9,58 +7,20 @@ export async function GET(req: Request) {
     throw Error('Missing NEXT_PUBLIC_SITE_URL environment variable')
   }
 
-  let author = {
-    name: 'Nelson Lamounier',
-    email: 'lamounierleao@outlook.com',
-  }
-
-  let feed = new Feed({
-    title: author.name,
-    description: 'Your blog description',
-    author,
-    id: siteUrl,
-    link: siteUrl,
-    image: `${siteUrl}/favicon.ico`,
-    favicon: `${siteUrl}/favicon.ico`,
-    copyright: `All rights reserved ${new Date().getFullYear()}`,
-    feedLinks: {
-      rss2: `${siteUrl}/feed.xml`,
-    },
-  })
-
   let articleIds = require
     .context('../articles', true, /\/page\.mdx$/)
     .keys()
     .filter((key) => key.startsWith('./'))
     .map((key) => key.slice(2).replace(/\/page\.mdx$/, ''))
 
+  let articles: { id: string; html: string }[] = []
+
   for (let id of articleIds) {
     let url = String(new URL(`/articles/${id}`, req.url))
-    let html = await (await fetch(url)).text()
-    let $ = cheerio.load(html)
-
-    let publicUrl = `${siteUrl}/articles/${id}`
-    let article = $('article').first()
-    let title = article.find('h1').first().text()
-    let date = article.find('time').first().attr('datetime')
-    let content = article.find('[data-mdx-content]').first().html()
-
-    assert(typeof title === 'string')
-    assert(typeof date === 'string')
-    assert(typeof content === 'string')
-
-    feed.addItem({
-      title,
-      id: publicUrl,
-      link: publicUrl,
-      content,
-      author: [author],
-      contributor: [author],
-      date: new Date(date),
-    })
+    articles.push({ id, html: await (await fetch(url)).text() })
   }
 
-  return new Response(feed.rss2(), {
+  return new Response(createFeed(siteUrl, articles).rss2(), {
     status: 200,
     headers: {
       'content-type': 'application/xml',
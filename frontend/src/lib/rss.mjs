@@ -0,0 +1,57 @@
+// Shared by the feed.xml route (container hosting) and
+// scripts/build-static-feed.mjs (static export), which have no Next.js
+// runtime in common, so this stays plain JavaScript
+import assert from 'assert'
+import * as cheerio from 'cheerio'
+import { Feed } from 'feed'
+
+const author = {
+  name: 'Nelson Lamounier',
+  email: 'lamounierleao@outlook.com',
+}
+
+/**
+ * @param {string} siteUrl
+ * @param {{ id: string, html: string }[]} articles rendered article pages
+ */
+export function createFeed(siteUrl, articles) {
+  let feed = new Feed({
+    title: author.name,
+    description: 'Your blog description',
+    author,
+    id: siteUrl,
+    link: siteUrl,
+    image: `${siteUrl}/favicon.ico`,
+    favicon: `${siteUrl}/favicon.ico`,
+    copyright: `All rights reserved ${new Date().getFullYear()}`,
+    feedLinks: {
+      rss2: `${siteUrl}/feed.xml`,
+    },
+  })
+
+  for (let { id, html } of articles) {
+    let $ = cheerio.load(html)
+
+    let publicUrl = `${siteUrl}/articles/${id}`
+    let article = $('article').first()
+    let title = article.find('h1').first().text()
+    let date = article.find('time').first().attr('datetime')
+    let content = article.find('[data-mdx-content]').first().html()
+
+    assert(typeof title === 'string')
+    assert(typeof date === 'string')
+    assert(typeof content === 'string')
+
+    feed.addItem({
+      title,
+      id: publicUrl,
+      link: publicUrl,
+      content,
+      author: [author],
+      contributor: [author],
+      date: new Date(date),
+    })
+  }
+
+  return feed
+}
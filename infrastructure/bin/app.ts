@@ -6,13 +6,17 @@ import "source-map-support/register";
 // Loads .env file for local development (not used in CI/CD)
 import "dotenv/config";
 import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
 import {
   NetworkingStack,
   StorageStack,
   ComputeStack,
   MonitoringStack,
+  StaticSiteStack,
+  CdnCertificateStack,
 } from "../lib/stacks";
 import { environments } from "../config/environments";
+import { validateIpAddressPlans } from "../lib/constructs/networking/ip-address-plan";
 
 const app = new cdk.App();
 
@@ -29,80 +33,196 @@ if (!config) {
   );
 }
 
+// Overlapping VPCs can never be peered, check every environment, not just this one
+validateIpAddressPlans(
+  Object.fromEntries(
+    Object.entries(environments).map(([name, env]) => [name, env.ipPlan])
+  )
+);
+
+// RECOVERY=true deploys networking and compute into the ECR recovery region
+// during a regional outage. The service pulls the replicated IMAGE_TAG; the
+// site domain, CDN and monitoring stay with the primary region.
+const recovery = process.env.RECOVERY === "true";
+if (recovery && !config.ecrReplication) {
+  throw new Error(
+    `${config.envName} has no ecrReplication.recoveryRegion to recover into`
+  );
+}
+const stackId = (stackName: string) =>
+  `${stackName}-${config.envName}${recovery ? "-recovery" : ""}`;
+const domain = recovery ? undefined : config.domain;
+
 // Common stack properties
 const stackProps: cdk.StackProps = {
   env: {
     account: config.account,
-    region: config.region,
+    region: recovery ? config.ecrReplication?.recoveryRegion : config.region,
   },
 };
 
-// ========================================
-// 1. Networking Stack
-// ========================================
-// Creates VPC, subnets, and routing
-// This stack is independent and can be deployed first
-const networkingStack = new NetworkingStack(
-  app,
-  `NetworkingStack-${config.envName}`,
-  {
+if (config.hostingMode === "STATIC_EXPORT") {
+  // ========================================
+  // Static Site Stack
+  // ========================================
+  // Creates S3 bucket and CloudFront distribution for the static export
+  // No VPC, ECR or ECS: the container stacks below are not created
+  new StaticSiteStack(app, `StaticSiteStack-${config.envName}`, {
+    ...stackProps,
+    envName: config.envName,
+  });
+} else {
+  // ========================================
+  // 1. Networking Stack
+  // ========================================
+  // Creates VPC, subnets, and routing
+  // This stack is independent and can be deployed first
+  const networkingStack = new NetworkingStack(app, stackId("NetworkingStack"), {
     ...stackProps,
     envName: config.envName,
     maxAzs: 2,
-    natGateways: 0, // Cost optimization: using public subnets only
+    natGateways: 0, // Cost optimization: NAT instance or endpoints instead
+    ipPlan: config.ipPlan,
+    privateEgress: config.privateEgress,
+    vpcEndpoints: config.vpcEndpoints,
+    flowLogs: config.flowLogs,
+  });
+
+  // ========================================
+  // 2. Storage Stack
+  // ========================================
+  // Creates ECR repository for container images
+  // This stack is independent and can be deployed in parallel with networking
+  // Not created when recovering: the repository is a replica in that region
+  const storageStack = recovery
+    ? undefined
+    : new StorageStack(app, `StorageStack-${config.envName}`, {
+        ...stackProps,
+        envName: config.envName,
+        pipelineAccount: config.pipelineAccount,
+        ecrReplication: config.ecrReplication,
+        protectCurrentRelease: config.imageSource === "SSM_PARAMETER",
+        ecrScanType: config.ecrScanType,
+      });
+
+  // ========================================
+  // 3. CDN Certificate Stack (Optional)
+  // ========================================
+  // Certificate for the site domain on the CloudFront distribution
+  // CloudFront only accepts us-east-1 certificates, so that region must be
+  // CDK-bootstrapped too. Cache policy names are global, the primary
+  // distribution keeps them.
+  const enableCdn = config.enableCdn && !recovery;
+  const cdnCertificateStack =
+    enableCdn && domain
+      ? new CdnCertificateStack(app, `CdnCertificateStack-${config.envName}`, {
+          env: { account: config.account, region: "us-east-1" },
+          crossRegionReferences: true,
+          envName: config.envName,
+          domainName: domain.domainName,
+          hostedZoneName: domain.hostedZoneName,
+          hostedZoneId: domain.hostedZoneId,
+        })
+      : undefined;
+
+  // ========================================
+  // 4. Compute Stack
+  // ========================================
+  // Creates ECS cluster and service
+  // Depends on: NetworkingStack (VPC), StorageStack (ECR),
+  // CdnCertificateStack (when the CDN serves the domain)
+  const computeStack = new ComputeStack(app, stackId("ComputeStack"), {
+    ...stackProps,
+    crossRegionReferences: !!cdnCertificateStack,
+    envName: config.envName,
+    vpc: networkingStack.vpc,
+    repository: storageStack?.repository,
+    computeSubnetType: networkingStack.computeSubnetType,
+    enableLoadBalancer: config.enableLoadBalancer,
+    directAccessCidrs: config.directAccessCidrs,
+    domainName: domain?.domainName,
+    hostedZoneName: domain?.hostedZoneName,
+    hostedZoneId: domain?.hostedZoneId,
+    waf: config.waf,
+    enableCdn,
+    cdnCertificate: cdnCertificateStack?.certificate,
+    assetBucketName: storageStack?.assetBucket.bucketName,
+    amiType: config.amiType,
+    minCapacity: config.scaling?.minInstances,
+    maxCapacity: config.scaling?.maxInstances,
+    desiredCapacity: config.scaling?.minTasks,
+    autoScaling: config.scaling && {
+      minTasks: config.scaling.minTasks,
+      maxTasks: config.scaling.maxTasks,
+      targetCpuPercent: config.scaling.targetCpuPercent,
+      targetMemoryPercent: config.scaling.targetMemoryPercent,
+      requestsPerTarget: config.scaling.requestsPerTarget,
+    },
+    enableCapacityProvider: config.scaling?.enableCapacityProvider,
+    spotCapacity: config.spot && {
+      instanceTypes: config.spot.instanceTypes.map(
+        (instanceType) => new ec2.InstanceType(instanceType)
+      ),
+      onDemandBaseCapacity: config.spot.onDemandBaseCapacity,
+      onDemandPercentageAboveBase: config.spot.onDemandPercentageAboveBase,
+    },
+    schedule: config.schedule && {
+      stopAt: config.schedule.stopAt,
+      startAt: config.schedule.startAt,
+      timeZone: config.schedule.timeZone
+        ? cdk.TimeZone.of(config.schedule.timeZone)
+        : undefined,
+    },
+    launchMode: config.launchMode,
+    deploymentStrategy: config.deploymentStrategy,
+    // The release parameter lives in the primary region
+    imageSource: recovery ? "ENV" : config.imageSource,
+    pinImageDigest: config.pinImageDigest,
+    // Replicas are not scanned, recovery redeploys an already released image
+    blockCriticalFindings: config.blockCriticalFindings && !recovery,
+    containerEnvironment: config.containerEnvironment,
+    containerSecrets: config.containerSecrets,
+    enableExec: config.enableExec,
+    // Monitoring alarms only exist when the monitoring stack is deployed
+    enableDeploymentAlarms: config.enableMonitoring && !recovery,
+  });
+
+  // Explicit dependencies
+  computeStack.addDependency(networkingStack);
+  if (storageStack) {
+    computeStack.addDependency(storageStack);
+  }
+  if (cdnCertificateStack) {
+    computeStack.addDependency(cdnCertificateStack);
   }
-);
 
-// ========================================
-// 2. Storage Stack
-// ========================================
-// Creates ECR repository for container images
-// This stack is independent and can be deployed in parallel with networking
-const storageStack = new StorageStack(app, `StorageStack-${config.envName}`, {
-  ...stackProps,
-  envName: config.envName,
-  pipelineAccount: config.pipelineAccount,
-});
-
-// ========================================
-// 3. Compute Stack
-// ========================================
-// Creates ECS cluster and service
-// Depends on: NetworkingStack (VPC), StorageStack (ECR)
-const computeStack = new ComputeStack(app, `ComputeStack-${config.envName}`, {
-  ...stackProps,
-  envName: config.envName,
-  vpc: networkingStack.vpc,
-  repository: storageStack.repository,
-});
-
-// Explicit dependencies
-computeStack.addDependency(networkingStack);
-computeStack.addDependency(storageStack);
-
-// ========================================
-// 4. Monitoring Stack (Optional)
-// ========================================
-// Creates CloudWatch alarms and dashboards
-// Depends on: ComputeStack (ECS cluster and service)
-if (config.enableMonitoring) {
-  const monitoringStack = new MonitoringStack(
-    app,
-    `MonitoringStack-${config.envName}`,
-    {
-      ...stackProps,
-      envName: config.envName,
-      ecsClusterName: computeStack.cluster.clusterName,
-      ecsServiceName: computeStack.service.serviceName,
-      alertEmail: config.alertEmail,
-      enableDashboard: config.envName === "production",
-      enableEventBridge: config.enableEventBridge,
-      pipelineAccountId: config.pipelineAccount,
-    }
-  );
+  // ========================================
+  // 5. Monitoring Stack (Optional)
+  // ========================================
+  // Creates CloudWatch alarms and dashboards
+  // Depends on: ComputeStack (ECS cluster and service)
+  if (config.enableMonitoring && !recovery) {
+    const monitoringStack = new MonitoringStack(
+      app,
+      `MonitoringStack-${config.envName}`,
+      {
+        ...stackProps,
+        envName: config.envName,
+        ecsClusterName: computeStack.cluster.clusterName,
+        ecsServiceName: computeStack.service.serviceName,
+        alertEmail: config.alertEmail,
+        enableDashboard: config.envName === "production",
+        enableEventBridge: config.enableEventBridge,
+        pipelineAccountId: config.pipelineAccount,
+        loadBalancerFullName: computeStack.loadBalancer?.loadBalancerFullName,
+        webAclName: computeStack.webAclName,
+        ecrRepositoryName: `app-repo-${config.envName}`,
+      }
+    );
 
-  // Explicit dependency
-  monitoringStack.addDependency(computeStack);
+    // Explicit dependency
+    monitoringStack.addDependency(computeStack);
+  }
 }
 
 // Converts CDK code to CloudFormation templates
@@ -1,18 +1,141 @@
 /** @format */
 
+import type {
+  ContainerSecretReference,
+  DeploymentStrategy,
+  EcsAmiType,
+  EcsLaunchMode,
+} from "../lib/constructs/compute/ecs-construct";
+import type { ImageSource } from "../lib/constructs/compute/container-image-construct";
+import type {
+  EcrReplicationOptions,
+  EcrScanType,
+} from "../lib/constructs/storage/ecr-construct";
+import type {
+  FlowLogOptions,
+  PrivateEgress,
+} from "../lib/constructs/networking/vpc-construct";
+import type { IpAddressPlan } from "../lib/constructs/networking/ip-address-plan";
+import type { VpcEndpointOptions } from "../lib/constructs/networking/vpc-endpoints-construct";
+import type { WafOptions } from "../lib/constructs/networking/waf-construct";
+
 // Single source of truth for environment configuration
 // Environment variables keep account IDs out of source control
 
+export interface DomainConfig {
+  hostedZoneName: string; // Route 53 public hosted zone, e.g. example.com
+  hostedZoneId?: string; // Skips the hosted zone lookup when provided
+  domainName: string; // Record served by this environment
+}
+
+export interface ScalingConfig {
+  minInstances: number; // ASG lower bound
+  maxInstances: number; // ASG upper bound
+  minTasks: number; // Service task count lower bound
+  maxTasks: number; // Service task count upper bound
+  targetCpuPercent?: number; // Service CPU target tracking
+  targetMemoryPercent?: number; // Service memory target tracking
+  requestsPerTarget?: number; // ALB requests per task (needs load balancer)
+  enableCapacityProvider?: boolean; // Instances follow task demand
+}
+
+export interface SpotConfig {
+  instanceTypes: string[]; // Several types improve Spot availability
+  onDemandBaseCapacity?: number; // Instances always on-demand (default: 0)
+  onDemandPercentageAboveBase?: number; // On-demand share above the base (default: 0)
+}
+
+// Cron fields as in EventBridge, e.g. { minute: "0", hour: "20", weekDay: "MON-FRI" }
+export interface CronWindow {
+  minute?: string;
+  hour?: string;
+  weekDay?: string;
+}
+
+// CONTAINER runs the Next.js server on ECS, STATIC_EXPORT serves
+// `yarn build:static` output from S3 + CloudFront with no VPC or compute
+export type HostingMode = "CONTAINER" | "STATIC_EXPORT";
+
+export interface ScheduleConfig {
+  stopAt: CronWindow; // Scale tasks and instances to zero
+  startAt: CronWindow; // Restore the configured capacity
+  timeZone?: string; // IANA name, e.g. Europe/Dublin (default: UTC)
+}
+
 export interface EnvironmentConfig {
   account: string; // AWS Account ID for deployment target
   region: string; // AWS Region for resources
   envName: string; // Used for resource naming and tagging
+  hostingMode?: HostingMode; // Default: CONTAINER, the settings below apply to it only
   pipelineAccount?: string; // CI/CD account for cross-account access
   enableMonitoring?: boolean; // Enable CloudWatch monitoring and alarms
   enableEventBridge?: boolean; // Enable cross-account EventBridge monitoring
   alertEmail?: string; // Email address for CloudWatch alarms
+  enableLoadBalancer?: boolean; // Front the ECS service with an ALB
+  directAccessCidrs?: string[]; // Allow-list for port 3000 without a load balancer, never 0.0.0.0/0
+  ipPlan: IpAddressPlan; // Non-overlapping VPC CIDR, checked when the app starts
+  privateEgress?: PrivateEgress; // Private compute, public subnets when omitted
+  vpcEndpoints?: VpcEndpointOptions; // Per-endpoint toggles (all on by default)
+  flowLogs?: FlowLogOptions; // VPC flow logs, disabled when omitted
+  domain?: DomainConfig; // HTTPS + DNS record (implies a load balancer)
+  waf?: WafOptions; // Web ACL on the load balancer (requires one), rate limits per IP
+  enableCdn?: boolean; // CloudFront in front of the load balancer (requires one)
+  scaling?: ScalingConfig; // Fixed single task and instance when omitted
+  launchMode?: EcsLaunchMode; // ECS capacity type (default: EC2)
+  deploymentStrategy?: DeploymentStrategy; // Default: ROLLING with circuit breaker, BLUE_GREEN isn't deployable yet (see below)
+  imageSource?: ImageSource; // Default: ENV (IMAGE_TAG variable)
+  pinImageDigest?: boolean; // Deploy the sha256 digest verified in ECR
+  ecrReplication?: EcrReplicationOptions; // Image copies, enables RECOVERY=true deployments
+  ecrScanType?: EcrScanType; // Default: BASIC scan on push
+  blockCriticalFindings?: boolean; // Refuse images with critical scan findings (needs the resolve-image-digest.sh context)
+  containerEnvironment?: { [key: string]: string }; // Plain app env vars
+  containerSecrets?: { [key: string]: ContainerSecretReference }; // Secrets Manager / SSM SecureString
+  spot?: SpotConfig; // EC2 Spot capacity via the capacity provider
+  schedule?: ScheduleConfig; // Scale to zero outside working hours
+  amiType?: EcsAmiType; // EC2 capacity image, ARM64 needs an arm64 app image
+  enableExec?: boolean; // Shell access via ECS Exec / Session Manager, no SSH
 }
 
+// Shared public hosted zone, one record per environment
+const hostedZoneName = process.env.HOSTED_ZONE_NAME;
+const hostedZoneId = process.env.HOSTED_ZONE_ID;
+
+// Subdomain for non-production, zone apex when no subdomain is given
+function domainFor(subdomain?: string): DomainConfig | undefined {
+  if (!hostedZoneName) {
+    return undefined;
+  }
+
+  return {
+    hostedZoneName,
+    hostedZoneId,
+    domainName: subdomain ? `${subdomain}.${hostedZoneName}` : hostedZoneName,
+  };
+}
+
+// deploymentStrategy BLUE_GREEN can't be used with the current pipeline.
+// It creates the CodeDeploy application, deployment group, green target group
+// and test listener, but CloudFormation can't change the task definition of a
+// CODE_DEPLOY service: the cdk deploy run of the deploy workflow would fail on
+// the first new image, and nothing in the workflow registers a task
+// definition, writes an appspec or runs `aws deploy create-deployment`. Every
+// environment stays on ROLLING until that step exists.
+
+// Non-production runs on weekdays only, off at night and over the weekend
+const workingHours: ScheduleConfig = {
+  stopAt: { minute: "0", hour: "20", weekDay: "MON-FRI" },
+  startAt: { minute: "0", hour: "7", weekDay: "MON-FRI" },
+  timeZone: "Europe/Dublin", // Matches the default eu-west-1 region
+};
+
+// One /16 per environment so they can be peered; changing a VPC CIDR
+// replaces the VPC and everything in it, which CloudFormation refuses while
+// the {env}-vpc-id export is imported. Staging and production were deployed
+// on 10.0.0.0/16 and stay there, isolated, until they are migrated. No other
+// environment may use that block or their planned ones:
+// 1. Deploy networking and compute stacks under new names on plannedVpcCidr
+// 2. Point the domain at the new load balancer and drain the old service
+// 3. Destroy the old stacks, then replace the plan with { vpcCidr: planned }
 // Record type provides type-safe access with autocomplete
 // Empty string defaults allow validation at runtime with clear errors
 export const environments: Record<string, EnvironmentConfig> = {
@@ -22,8 +145,17 @@ export const environments: Record<string, EnvironmentConfig> = {
     region: process.env.AWS_REGION || "eu-west-1",
     envName: "development",
     pipelineAccount: process.env.AWS_PIPELINE_ACCOUNT_ID || "",
+    ipPlan: { vpcCidr: "10.3.0.0/16" }, // Clear of the staging and production blocks
     enableMonitoring: false, // Disabled for cost optimization
     enableEventBridge: false,
+    enableLoadBalancer: false, // Saves the ALB cost, no ingress beyond the allow-list below
+    // Comma-separated CIDRs reaching port 3000 on the task's public IP,
+    // closed when unset
+    directAccessCidrs: process.env.DEV_ACCESS_CIDRS?.split(",").map((cidr) =>
+      cidr.trim()
+    ),
+    launchMode: "FARGATE_SPOT", // A single small task doesn't need a whole instance
+    schedule: workingHours,
   },
 
   // Pre-production testing, mirrors production config
@@ -32,8 +164,34 @@ export const environments: Record<string, EnvironmentConfig> = {
     region: process.env.AWS_REGION || "eu-west-1",
     envName: "staging",
     pipelineAccount: process.env.AWS_PIPELINE_ACCOUNT_ID || "",
+    ipPlan: {
+      vpcCidr: "10.0.0.0/16",
+      isolated: true,
+      plannedVpcCidr: "10.1.0.0/16",
+    },
     enableMonitoring: true, // Enabled for testing
     enableEventBridge: false,
+    enableLoadBalancer: true,
+    domain: domainFor("staging"),
+    waf: {}, // Same rules as production, false positives show up here first
+    enableCdn: true, // Cache behaviors are tried here before production
+    privateEgress: "NAT_INSTANCE", // Instances only reachable through the ALB
+    scaling: {
+      minInstances: 1,
+      maxInstances: 2,
+      minTasks: 1,
+      maxTasks: 2,
+      enableCapacityProvider: true,
+    },
+    // Interruptions are acceptable before production, development already runs on Fargate Spot
+    spot: {
+      instanceTypes: ["t3.micro", "t3a.micro", "t2.micro"],
+    },
+    schedule: workingHours,
+    imageSource: "SSM_PARAMETER", // Tag promoted by the pipeline
+    pinImageDigest: true, // Immutable, audited image
+    enableExec: true, // Debug without opening ports
+    amiType: "AL2023", // Images are built for linux/amd64
     alertEmail: process.env.ALERT_EMAIL,
   },
 
@@ -43,8 +201,42 @@ export const environments: Record<string, EnvironmentConfig> = {
     region: process.env.AWS_REGION || "eu-west-1",
     envName: "production",
     pipelineAccount: process.env.AWS_PIPELINE_ACCOUNT_ID || "",
+    ipPlan: {
+      vpcCidr: "10.0.0.0/16",
+      isolated: true,
+      plannedVpcCidr: "10.2.0.0/16",
+    },
     enableMonitoring: true, // Always enabled for production
     enableEventBridge: true, // Cross-account monitoring
+    enableLoadBalancer: true,
+    domain: domainFor(), // Apex domain
+    waf: { logRetentionDays: 90 },
+    privateEgress: "NAT_INSTANCE", // Instances only reachable through the ALB
+    // Rejected connections to investigate, queryable with Logs Insights
+    flowLogs: {
+      destination: "CLOUDWATCH_LOGS",
+      trafficType: "REJECT",
+      retentionDays: 90,
+    },
+    scaling: {
+      minInstances: 1,
+      maxInstances: 3,
+      minTasks: 2, // One task keeps serving while another is replaced
+      maxTasks: 6,
+      requestsPerTarget: 500,
+      enableCapacityProvider: true,
+    },
+    // Not BLUE_GREEN, the pipeline can't release to it (see above)
+    deploymentStrategy: "ROLLING",
+    imageSource: "SSM_PARAMETER", // Tag promoted by the pipeline
+    pinImageDigest: true, // Immutable, audited image
+    // Redeploy from another region if ECR in the primary region is down
+    ecrReplication: {
+      recoveryRegion: process.env.AWS_RECOVERY_REGION || "eu-central-1",
+    },
+    blockCriticalFindings: true, // Never release a known critical vulnerability
+    enableExec: true, // Debug without opening ports
+    amiType: "AL2023", // Images are built for linux/amd64
     alertEmail: process.env.ALERT_EMAIL,
   },
 };
@@ -0,0 +1,82 @@
+/** @format */
+
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Duration, Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+export interface BlueGreenDeploymentConstructProps {
+  envName: string; // Environment name for naming and tagging
+  service: ecs.BaseService; // Service using the CODE_DEPLOY controller
+  blueTargetGroup: elbv2.IApplicationTargetGroup; // Serves production traffic
+  greenTargetGroup: elbv2.IApplicationTargetGroup; // Receives replacement tasks
+  listener: elbv2.IApplicationListener; // Production listener
+  testListener?: elbv2.IApplicationListener; // Validates green before shifting
+  deploymentConfig?: codedeploy.IEcsDeploymentConfig; // Default: canary 10% for 5 minutes
+  alarmNames?: string[]; // Roll back when any of these alarms fire
+  terminationWaitTime?: Duration; // Keep blue tasks for a quick manual rollback
+}
+
+/**
+ * CodeDeploy blue/green deployments for the ECS service
+ *
+ * Replacement tasks are registered in the green target group, validated on
+ * the test listener, then production traffic shifts according to the
+ * deployment config. Failed, stopped or in-alarm deployments roll back.
+ *
+ * Alarms are imported by name so the compute stack doesn't depend on the
+ * monitoring stack that owns them.
+ */
+export class BlueGreenDeploymentConstruct extends Construct {
+  public readonly application: codedeploy.EcsApplication;
+  public readonly deploymentGroup: codedeploy.EcsDeploymentGroup;
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: BlueGreenDeploymentConstructProps
+  ) {
+    super(scope, id);
+
+    this.application = new codedeploy.EcsApplication(this, "Application", {
+      applicationName: `ecs-app-${props.envName}`,
+    });
+
+    const alarms = (props.alarmNames || []).map((alarmName) =>
+      cloudwatch.Alarm.fromAlarmName(this, `Alarm-${alarmName}`, alarmName)
+    );
+
+    this.deploymentGroup = new codedeploy.EcsDeploymentGroup(
+      this,
+      "DeploymentGroup",
+      {
+        application: this.application,
+        deploymentGroupName: `ecs-dg-${props.envName}`,
+        service: props.service,
+        blueGreenDeploymentConfig: {
+          blueTargetGroup: props.blueTargetGroup,
+          greenTargetGroup: props.greenTargetGroup,
+          listener: props.listener,
+          testListener: props.testListener,
+          terminationWaitTime:
+            props.terminationWaitTime || Duration.minutes(10),
+        },
+        deploymentConfig:
+          props.deploymentConfig ||
+          codedeploy.EcsDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+        alarms,
+        autoRollback: {
+          failedDeployment: true,
+          stoppedDeployment: true,
+          deploymentInAlarm: alarms.length > 0,
+        },
+      }
+    );
+
+    // Tag deployment resources
+    Tags.of(this).add("Environment", props.envName);
+    Tags.of(this).add("ManagedBy", "CDK");
+  }
+}
@@ -4,26 +4,84 @@ import { Construct } from "constructs";
 import * as ecs from "aws-cdk-lib/aws-ecs";
 import * as ecr from "aws-cdk-lib/aws-ecr";
 
+// Where the deployed image tag comes from
+// - ENV: IMAGE_TAG environment variable (local deployments)
+// - SSM_PARAMETER: release parameter written by the pipeline after a push
+export type ImageSource = "ENV" | "SSM_PARAMETER";
+
+// Context entry written by scripts/resolve-image-digest.sh, holds the value
+// of the release parameter read at deploy time
+export function ecrReleaseContextKey(parameterName: string): string {
+  return `ecr-release:${parameterName}`;
+}
+
+// Context entry written by scripts/resolve-image-digest.sh, holds the digest
+export function ecrImageContextKey(
+  repositoryName: string,
+  tagOrDigest: string
+): string {
+  return `ecr-image:${repositoryName}:${tagOrDigest}`;
+}
+
+// Context entry written by scripts/resolve-image-digest.sh, holds the number
+// of critical findings in the digest's latest scan
+export function ecrImageScanContextKey(
+  repositoryName: string,
+  digest: string
+): string {
+  return `ecr-image-scan:${repositoryName}:${digest}`;
+}
+
 export interface ContainerImageConstructProps {
-  repository: ecr.Repository;
+  repository: ecr.IRepository;
   imageTag?: string;
   defaultImage?: string;
+  envName?: string; // Required for SSM_PARAMETER source
+  imageSource?: ImageSource; // Default: ENV
+  releaseParameterName?: string; // Default: /ecr/{envName}/current-release
+  allowPlaceholder?: boolean; // Fall back to defaultImage (default: true)
+  repositoryName?: string; // Default: app-repo-{envName}
+  pinDigest?: boolean; // Deploy the resolved sha256 digest instead of the tag
+  validateImage?: boolean; // Fail synth when the image isn't in ECR (default: pinDigest or blockCriticalFindings)
+  blockCriticalFindings?: boolean; // Fail synth when the image's latest scan has critical findings (validates the image)
 }
 
 /**
  * Construct that handles container image resolution
  *
  * This construct determines whether to use an ECR image or a public registry image
- * based on the IMAGE_TAG environment variable.
+ * based on the IMAGE_TAG environment variable, or on the released tag stored
+ * in SSM Parameter Store.
  *
  * Usage:
  * - For initial deployment (no ECR image yet): Uses nginx:alpine
  * - For production deployments: Uses ECR image with specific tag (commit SHA, version, etc.)
+ *
+ * With the SSM_PARAMETER source, scripts/publish-release.sh writes the
+ * deployed tag or digest (sha256:...) to /ecr/{envName}/current-release and
+ * scripts/resolve-image-digest.sh reads it back into the ecr-release context
+ * entry on every deployment, or passes the pipeline's release candidate
+ * instead. It is not an SSM context lookup, those are cached in
+ * cdk.context.json and would keep deploying the first release.
+ * When allowPlaceholder is false, synth fails instead of deploying the
+ * public placeholder image.
+ *
+ * ECR images can be validated and pinned by digest. The digest is read from
+ * the ecr-image context entry resolved by scripts/resolve-image-digest.sh, so
+ * synth fails when the tag or digest isn't present in the repository and the
+ * task definition references an immutable image.
+ *
+ * With blockCriticalFindings, the validated digest must also have a scan
+ * result in context without critical findings. Images that were never
+ * scanned, or whose scan hasn't finished, are refused as well.
  */
 export class ContainerImageConstruct extends Construct {
   public readonly containerImage: ecs.ContainerImage;
   public readonly imageTag: string;
+  public readonly imageName: string; // Fully qualified image reference
   public readonly isEcrImage: boolean;
+  public readonly releaseParameterName?: string;
+  public readonly imageDigest?: string; // Set when the image was validated
 
   constructor(
     scope: Construct,
@@ -32,34 +90,168 @@ export class ContainerImageConstruct extends Construct {
   ) {
     super(scope, id);
 
-    // Get image tag from environment variable or use default
     const defaultImage = props.defaultImage || "nginx:alpine";
-    this.imageTag = props.imageTag || process.env.IMAGE_TAG || defaultImage;
+    const allowPlaceholder = props.allowPlaceholder ?? true;
+
+    if (props.imageSource === "SSM_PARAMETER") {
+      if (!props.envName && !props.releaseParameterName) {
+        throw new Error(
+          "envName or releaseParameterName is required for the SSM_PARAMETER image source"
+        );
+      }
+
+      this.releaseParameterName =
+        props.releaseParameterName || `/ecr/${props.envName}/current-release`;
+
+      // A missing release only falls back when the placeholder is allowed
+      const release: string | undefined = this.node.tryGetContext(
+        ecrReleaseContextKey(this.releaseParameterName)
+      );
+      if (release === undefined && !allowPlaceholder) {
+        throw new Error(
+          `No release for ${this.releaseParameterName} in context: ` +
+            "run scripts/resolve-image-digest.sh and pass its CDK_CONTEXT to cdk"
+        );
+      }
+
+      this.imageTag = release ?? defaultImage;
+    } else {
+      // Get image tag from environment variable or use default
+      this.imageTag = props.imageTag || process.env.IMAGE_TAG || defaultImage;
+    }
 
     // Determine if we're using ECR or public registry
     // Use public registry if:
     // - imageTag is nginx:alpine (default)
     // - imageTag contains ":" (indicates registry/image:tag format like nginx:alpine)
+    // Digests (sha256:...) always refer to the ECR repository
+    const isDigest = this.imageTag.startsWith("sha256:");
     const isPublicRegistryImage =
       this.imageTag === defaultImage ||
-      (this.imageTag.includes(":") && !this.imageTag.includes("/"));
+      (!isDigest &&
+        this.imageTag.includes(":") &&
+        !this.imageTag.includes("/"));
+
+    if (isPublicRegistryImage && !allowPlaceholder) {
+      throw new Error(
+        `Refusing to deploy placeholder image ${this.imageTag}: ` +
+          (this.releaseParameterName
+            ? `set ${this.releaseParameterName} to the released tag or digest`
+            : "set IMAGE_TAG to the released tag or digest")
+      );
+    }
 
     this.isEcrImage = !isPublicRegistryImage;
 
+    // The scan result is looked up by the validated digest
+    if (props.blockCriticalFindings && props.validateImage === false) {
+      throw new Error(
+        "blockCriticalFindings needs the image validated in ECR, don't set validateImage to false"
+      );
+    }
+
+    const validateImage =
+      props.validateImage ??
+      (!!props.pinDigest || !!props.blockCriticalFindings);
+
+    if (this.isEcrImage && validateImage) {
+      this.imageDigest = this.resolveImageDigest(props, this.imageTag);
+
+      if (props.blockCriticalFindings) {
+        this.checkScanFindings(props, this.imageDigest);
+      }
+    }
+
     // Create container image based on source
     if (this.isEcrImage) {
-      // Use ECR image with specific tag
-      console.log(
-        `Using ECR image: ${props.repository.repositoryUri}:${this.imageTag}`
-      );
+      // Use ECR image with specific tag or digest
+      const tagOrDigest =
+        props.pinDigest && this.imageDigest ? this.imageDigest : this.imageTag;
+      this.imageName =
+        props.repository.repositoryUriForTagOrDigest(tagOrDigest);
+      console.log(`Using ECR image: ${this.imageName}`);
       this.containerImage = ecs.ContainerImage.fromEcrRepository(
         props.repository,
-        this.imageTag
+        tagOrDigest
       );
     } else {
       // Use public registry image (for initial deployment)
+      this.imageName = this.imageTag;
       console.log(`Using public registry image: ${this.imageTag}`);
       this.containerImage = ecs.ContainerImage.fromRegistry(this.imageTag);
     }
   }
+
+  private repositoryNameFor(props: ContainerImageConstructProps): string {
+    const repositoryName =
+      props.repositoryName || (props.envName && `app-repo-${props.envName}`);
+    if (!repositoryName) {
+      throw new Error(
+        "envName or repositoryName is required to validate the image"
+      );
+    }
+    return repositoryName;
+  }
+
+  // Digest recorded in context for the tag (or digest) in this environment's repository
+  private resolveImageDigest(
+    props: ContainerImageConstructProps,
+    tagOrDigest: string
+  ): string {
+    const repositoryName = this.repositoryNameFor(props);
+
+    const digest = this.node.tryGetContext(
+      ecrImageContextKey(repositoryName, tagOrDigest)
+    );
+    if (!digest) {
+      throw new Error(
+        `Image ${tagOrDigest} not found in ${repositoryName}: ` +
+          "run scripts/resolve-image-digest.sh and pass its CDK_CONTEXT to cdk"
+      );
+    }
+
+    if (!/^sha256:[a-f0-9]{64}$/.test(digest)) {
+      throw new Error(`Invalid digest ${digest} for ${tagOrDigest}`);
+    }
+
+    if (tagOrDigest.startsWith("sha256:") && digest !== tagOrDigest) {
+      throw new Error(
+        `Digest ${tagOrDigest} resolved to ${digest} in ${repositoryName}`
+      );
+    }
+
+    return digest;
+  }
+
+  // Critical findings recorded in context for the digest's latest scan
+  private checkScanFindings(
+    props: ContainerImageConstructProps,
+    digest: string
+  ): void {
+    const repositoryName = this.repositoryNameFor(props);
+    const criticalFindings = this.node.tryGetContext(
+      ecrImageScanContextKey(repositoryName, digest)
+    );
+
+    if (criticalFindings === undefined) {
+      throw new Error(
+        `No scan result for ${digest} in ${repositoryName}: ` +
+          "run scripts/resolve-image-digest.sh once the scan has completed"
+      );
+    }
+
+    const count = Number(criticalFindings);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(
+        `Invalid critical findings count ${criticalFindings} for ${digest}`
+      );
+    }
+
+    if (count > 0) {
+      throw new Error(
+        `Refusing to deploy ${this.imageTag}: its latest scan in ` +
+          `${repositoryName} has ${count} critical findings`
+      );
+    }
+  }
 }
@@ -3,14 +3,140 @@
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as ecs from "aws-cdk-lib/aws-ecs";
 import * as autoscaling from "aws-cdk-lib/aws-autoscaling";
-import { Tags } from "aws-cdk-lib";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import { Duration, Stack, Tags, TimeZone } from "aws-cdk-lib";
 import { Construct } from "constructs";
 
+// EC2 uses the ASG below; the Fargate modes need no instances at all
+// MIXED keeps a Fargate base and places the remainder on Fargate Spot
+export type EcsLaunchMode = "EC2" | "FARGATE" | "FARGATE_SPOT" | "MIXED";
+
+// Valid Fargate task CPU units and the memory sizes (MiB) each supports
+const FARGATE_TASK_SIZES: { cpu: number; memoryMiB: number[] }[] = [
+  { cpu: 256, memoryMiB: [512, 1024, 2048] },
+  { cpu: 512, memoryMiB: [1024, 2048, 3072, 4096] },
+  { cpu: 1024, memoryMiB: [2048, 3072, 4096, 5120, 6144, 7168, 8192] },
+  { cpu: 2048, memoryMiB: range(4096, 16384, 1024) },
+  { cpu: 4096, memoryMiB: range(8192, 30720, 1024) },
+];
+
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) {
+    values.push(value);
+  }
+  return values;
+}
+
+// Smallest valid Fargate size that fits the requested container CPU and memory
+function resolveFargateTaskSize(
+  cpu: number,
+  memoryMiB: number
+): { cpu: number; memoryMiB: number } {
+  for (const size of FARGATE_TASK_SIZES) {
+    const fittingMemory = size.memoryMiB.find((value) => value >= memoryMiB);
+    if (size.cpu >= cpu && fittingMemory) {
+      return { cpu: size.cpu, memoryMiB: fittingMemory };
+    }
+  }
+
+  throw new Error(
+    `No Fargate task size fits ${cpu} CPU units and ${memoryMiB} MiB`
+  );
+}
+
+// Bottlerocket OS volume, must not be smaller than the image's root snapshot
+const BOTTLEROCKET_OS_VOLUME_GIB = 8;
+
+// ECS-optimized images for the EC2 capacity, *_ARM64 run on Graviton
+export type EcsAmiType =
+  | "AL2"
+  | "AL2023"
+  | "AL2023_ARM64"
+  | "BOTTLEROCKET"
+  | "BOTTLEROCKET_ARM64";
+
+function ecsMachineImage(amiType: EcsAmiType): ec2.IMachineImage {
+  switch (amiType) {
+    case "AL2023":
+      return ecs.EcsOptimizedImage.amazonLinux2023();
+    case "AL2023_ARM64":
+      return ecs.EcsOptimizedImage.amazonLinux2023(ecs.AmiHardwareType.ARM);
+    case "BOTTLEROCKET":
+      return new ecs.BottleRocketImage({
+        architecture: ec2.InstanceArchitecture.X86_64,
+      });
+    case "BOTTLEROCKET_ARM64":
+      return new ecs.BottleRocketImage({
+        architecture: ec2.InstanceArchitecture.ARM_64,
+      });
+    default:
+      return ecs.EcsOptimizedImage.amazonLinux2();
+  }
+}
+
+// ROLLING replaces tasks in place behind the circuit breaker
+// BLUE_GREEN hands deployments to CodeDeploy (see BlueGreenDeploymentConstruct).
+//   CloudFormation can't change the task definition of a CODE_DEPLOY service,
+//   so every release needs an appspec and `aws deploy create-deployment`,
+//   which the deploy workflow doesn't run yet.
+export type DeploymentStrategy = "ROLLING" | "BLUE_GREEN";
+
+// Secrets are injected by the ECS agent at task start, never synthesized
+export type ContainerSecretSource = "SECRETS_MANAGER" | "SSM_PARAMETER";
+
+export interface ContainerSecretReference {
+  source: ContainerSecretSource;
+  name: string; // Complete secret ARN or SecureString parameter name
+  jsonKey?: string; // SECRETS_MANAGER: single field of a JSON secret
+}
+
+// Mirrors the Dockerfile HEALTHCHECK so ECS replaces a hung Next.js process
+export interface ContainerHealthCheckOptions {
+  command?: string[]; // Default: node GET on path, like the Dockerfile
+  path?: string; // Default: /api/health
+  interval?: Duration; // Default: 30 seconds
+  timeout?: Duration; // Default: 3 seconds
+  startPeriod?: Duration; // Failures ignored while starting (default: 5 seconds)
+  retries?: number; // Default: 3
+}
+
+// Mixed instances policy for the EC2 capacity (uses the capacity provider)
+export interface SpotCapacityOptions {
+  instanceTypes: ec2.InstanceType[]; // Spread Spot requests across several pools
+  onDemandBaseCapacity?: number; // Instances always on-demand (default: 0)
+  onDemandPercentageAboveBase?: number; // On-demand share above the base (default: 0)
+}
+
+export interface ServiceAutoScalingOptions {
+  minTasks: number; // Lower bound for the service task count
+  maxTasks: number; // Upper bound for the service task count
+  targetCpuPercent?: number; // Average service CPU to hold (default: 70)
+  targetMemoryPercent?: number; // Average service memory to hold (default: 80)
+  requestsPerTarget?: number; // ALB requests per task, applied once a target group exists
+}
+
+// Working hours for non-production: tasks and instances are scaled to zero
+// at stopAt and restored at startAt, e.g. weekDay "MON-FRI" covers weekends
+export interface ScaleToZeroSchedule {
+  stopAt: appscaling.CronOptions; // e.g. { minute: "0", hour: "20", weekDay: "MON-FRI" }
+  startAt: appscaling.CronOptions; // e.g. { minute: "0", hour: "7", weekDay: "MON-FRI" }
+  timeZone?: TimeZone; // Default: UTC
+}
+
 export interface EcsConstructProps {
   vpc: ec2.IVpc;
   envName: string; // Environment name for tagging
   containerImage: ecs.ContainerImage; // ECR image (required)
   instanceType?: ec2.InstanceType;
+  subnetType?: ec2.SubnetType; // Instances and tasks (default: PUBLIC with a public IP)
+  instanceSecurityGroup?: ec2.ISecurityGroup; // EC2: replaces the CDK default group
+  taskSecurityGroup?: ec2.ISecurityGroup; // Fargate: replaces the CDK default group
   minCapacity?: number;
   maxCapacity?: number;
   desiredCapacity?: number;
@@ -18,59 +144,176 @@ export interface EcsConstructProps {
   cpu?: number;
   memoryLimitMiB?: number; // Hard limit - task killed if exceeded
   memoryReservationMiB?: number; // Soft limit - minimum memory reserved
+  healthCheckGracePeriod?: Duration; // Only valid when behind a load balancer
+  environment?: { [key: string]: string }; // Plain container env vars
+  secrets?: { [key: string]: ContainerSecretReference }; // Env vars read from secret stores
+  containerHealthCheck?: ContainerHealthCheckOptions; // Requires node in the image
+  stopTimeout?: Duration; // SIGTERM to SIGKILL grace period (Fargate max: 120 seconds)
+  ulimits?: ecs.Ulimit[]; // e.g. raise nofile for many open sockets
+  amiType?: EcsAmiType; // EC2: capacity image (default: AL2)
+  rootVolumeSizeGiB?: number; // EC2: encrypted gp3 volume (default: 30, Bottlerocket data: 20, OS: 8)
+  spotCapacity?: SpotCapacityOptions; // EC2: Spot instances, drained on interruption
+  imdsHopLimit?: number; // EC2: IMDSv2 hop limit, 1 keeps containers off IMDS (default: 1)
+  enableExec?: boolean; // ECS Exec into tasks, SSM Session Manager on instances
+  execLogRetention?: logs.RetentionDays; // Exec session logs (default: ONE_MONTH)
+  autoScaling?: ServiceAutoScalingOptions; // Target tracking on task count
+  enableCapacityProvider?: boolean; // ASG managed scaling follows task demand
+  capacityProviderTargetPercent?: number; // Desired cluster utilization (default: 100)
+  schedule?: ScaleToZeroSchedule; // Scale to zero outside working hours
+  launchMode?: EcsLaunchMode; // Default: EC2
+  fargateBaseTasks?: number; // MIXED: tasks always on regular Fargate (default: 1)
+  fargateSpotWeight?: number; // MIXED: Spot share relative to Fargate weight 1 (default: 3)
+  deploymentStrategy?: DeploymentStrategy; // Default: ROLLING
+  deploymentAlarmNames?: string[]; // ROLLING: roll back when any alarm fires
 }
 
+/**
+ * ECS cluster, task definition and service for the Next.js container
+ *
+ * Launch modes:
+ * - EC2: BRIDGE networking with dynamic host ports on an ASG (default)
+ * - FARGATE / FARGATE_SPOT: AWSVPC networking, task-level CPU/memory
+ * - MIXED: Fargate base capacity with the remainder on Fargate Spot
+ *
+ * With spotCapacity the EC2 capacity becomes a mixed instances ASG behind
+ * the capacity provider. ECS drains Spot instances when the two-minute
+ * interruption notice arrives, so tasks are rescheduled instead of killed.
+ *
+ * Instances and tasks run in PUBLIC subnets with a public IP by default.
+ * In private subnets they reach ECR, CloudWatch and SSM through the VPC's
+ * NAT instance or VPC endpoints (see VpcConstruct) and get no public IP.
+ * SecurityGroupsConstruct provides their security groups; without one CDK
+ * creates a default group with no ingress.
+ *
+ * EC2 instances require IMDSv2 and boot from encrypted gp3 volumes whatever
+ * the account defaults are. The instance type must match the AMI's
+ * architecture (t4g.micro is the default for the ARM64 images).
+ *
+ * In the Fargate modes memoryLimitMiB (or memoryReservationMiB) and cpu are
+ * rounded up to the nearest valid Fargate task size.
+ *
+ * Secrets are granted to the task execution role one by one, so the agent
+ * can only read the secrets and parameters this container references.
+ *
+ * With enableExec, shells go through SSM instead of SSH: ECS Exec sessions
+ * are encrypted with a dedicated KMS key and their output is logged to an
+ * encrypted log group, and the instances get AmazonSSMManagedInstanceCore.
+ * No security group ports are opened.
+ *
+ * A schedule adds scheduled actions that set the task count, and the ASG in
+ * EC2 mode, to zero at stopAt and restore the configured bounds at startAt.
+ */
 export class EcsConstruct extends Construct {
   public readonly cluster: ecs.Cluster;
-  public readonly asg: autoscaling.AutoScalingGroup;
-  public readonly service: ecs.Ec2Service;
-  public readonly taskDefinition: ecs.Ec2TaskDefinition;
+  public readonly asg?: autoscaling.AutoScalingGroup; // EC2 mode only
+  public readonly service: ecs.BaseService;
+  public readonly taskDefinition: ecs.TaskDefinition;
+  public readonly container: ecs.ContainerDefinition;
+  public readonly capacityProvider?: ecs.AsgCapacityProvider;
+  public readonly scalableTaskCount?: ecs.ScalableTaskCount;
+  public readonly execKey?: kms.Key; // enableExec only
+  public readonly execLogGroup?: logs.LogGroup; // enableExec only
+  public readonly scheduleDescription?: string; // Stop and start expressions, schedule only
 
   constructor(scope: Construct, id: string, props: EcsConstructProps) {
     super(scope, id);
 
+    const launchMode = props.launchMode ?? "EC2";
+    const isEc2 = launchMode === "EC2";
+
+    // ECS Exec session encryption and output logging
+    if (props.enableExec) {
+      this.execKey = new kms.Key(this, "ExecKey", {
+        description: `ECS Exec sessions for ${props.envName}`,
+        enableKeyRotation: true,
+      });
+
+      // CloudWatch Logs needs the key to encrypt the session output
+      this.execKey.grantEncryptDecrypt(
+        new iam.ServicePrincipal(`logs.${Stack.of(this).region}.amazonaws.com`)
+      );
+
+      this.execLogGroup = new logs.LogGroup(this, "ExecLogGroup", {
+        logGroupName: `/ecs/${props.envName}/exec`,
+        encryptionKey: this.execKey,
+        retention: props.execLogRetention || logs.RetentionDays.ONE_MONTH,
+      });
+    }
+
     // 1. Create ECS Cluster
     this.cluster = new ecs.Cluster(this, "Cluster", {
       vpc: props.vpc,
       clusterName: `ecs-cluster-${props.envName}`,
+      // Registers FARGATE and FARGATE_SPOT for capacity provider strategies
+      enableFargateCapacityProviders: !isEc2,
+      executeCommandConfiguration: this.execLogGroup && {
+        kmsKey: this.execKey,
+        logging: ecs.ExecuteCommandLogging.OVERRIDE,
+        logConfiguration: {
+          cloudWatchLogGroup: this.execLogGroup,
+          cloudWatchEncryptionEnabled: true,
+        },
+      },
     });
 
     // Tag cluster
     Tags.of(this.cluster).add("Environment", props.envName);
     Tags.of(this.cluster).add("ManagedBy", "CDK");
 
-    // 2. Add EC2 Capacity in PUBLIC subnets
-    this.asg = this.cluster.addCapacity("DefaultAutoScalingGroup", {
-      instanceType: props.instanceType || new ec2.InstanceType("t3.micro"),
-      minCapacity: props.minCapacity || 1,
-      maxCapacity: props.maxCapacity || 2,
-      desiredCapacity: props.desiredCapacity || 1,
+    // 2. Add EC2 Capacity (EC2 mode only)
+    if (isEc2) {
+      const capacity = this.createEc2Capacity(props);
+      this.asg = capacity.asg;
+      this.capacityProvider = capacity.capacityProvider;
 
-      // Place in PUBLIC subnets (no NAT gateway needed)
-      vpcSubnets: {
-        subnetType: ec2.SubnetType.PUBLIC,
-      },
+      // Session Manager replaces SSH, no inbound ports needed
+      if (props.enableExec) {
+        this.asg.role.addManagedPolicy(
+          iam.ManagedPolicy.fromAwsManagedPolicyName(
+            "AmazonSSMManagedInstanceCore"
+          )
+        );
+      }
 
-      // Auto-assign public IP for internet access
-      associatePublicIpAddress: true,
-    });
+      // Tag Auto Scaling Group
+      Tags.of(this.asg).add("Environment", props.envName);
+      Tags.of(this.asg).add("ManagedBy", "CDK");
+    }
 
-    // Tag Auto Scaling Group
-    Tags.of(this.asg).add("Environment", props.envName);
-    Tags.of(this.asg).add("ManagedBy", "CDK");
+    // 3. Create Task Definition
+    if (isEc2) {
+      this.taskDefinition = new ecs.Ec2TaskDefinition(this, "TaskDef", {
+        networkMode: ecs.NetworkMode.BRIDGE, // Default for EC2
+      });
+    } else {
+      // Fargate requires task-level sizes from a fixed set of combinations
+      const taskSize = resolveFargateTaskSize(
+        props.cpu ?? 256,
+        props.memoryLimitMiB ?? props.memoryReservationMiB ?? 512
+      );
 
-    // 3. Create Task Definition (EC2 type)
-    this.taskDefinition = new ecs.Ec2TaskDefinition(this, "TaskDef", {
-      networkMode: ecs.NetworkMode.BRIDGE, // Default for EC2
-    });
+      this.taskDefinition = new ecs.FargateTaskDefinition(this, "TaskDef", {
+        cpu: taskSize.cpu,
+        memoryLimitMiB: taskSize.memoryMiB,
+      });
+    }
 
     // Tag task definition
     Tags.of(this.taskDefinition).add("Environment", props.envName);
     Tags.of(this.taskDefinition).add("ManagedBy", "CDK");
 
+    // Fargate caps the grace period, the EC2 agent takes any value
+    if (!isEc2 && props.stopTimeout && props.stopTimeout.toSeconds() > 120) {
+      throw new Error(
+        `stopTimeout must be at most 120 seconds on Fargate (${props.stopTimeout.toSeconds()})`
+      );
+    }
+
     // 4. Add Container to Task Definition
-    const container = this.taskDefinition.addContainer("app", {
+    this.container = this.taskDefinition.addContainer("app", {
       image: props.containerImage, // Use ECR image
+      environment: props.environment,
+      secrets: this.resolveSecrets(props),
       logging: ecs.LogDrivers.awsLogs({
         streamPrefix: `ecs-${props.envName}`,
       }),
@@ -82,45 +325,534 @@ export class EcsConstruct extends Construct {
       memoryLimitMiB: props.memoryLimitMiB,
       // CPU units (1024 = 1 vCPU)
       cpu: props.cpu,
+      healthCheck:
+        props.containerHealthCheck &&
+        this.containerHealthCheck(
+          props.containerHealthCheck,
+          props.containerPort || 80
+        ),
+      // Time for in-flight requests to finish after SIGTERM
+      stopTimeout: props.stopTimeout,
+      ulimits: props.ulimits,
     });
 
     // Add port mapping with DYNAMIC host port
     // hostPort: 0 allows multiple containers on same EC2 instance
-    container.addPortMappings({
+    // AWSVPC gives each task its own ENI, so host and container ports match
+    this.container.addPortMappings({
       containerPort: props.containerPort || 80,
-      hostPort: 0, // Dynamic port mapping
+      hostPort: isEc2 ? 0 : undefined,
       protocol: ecs.Protocol.TCP,
     });
 
     // 5. Create ECS Service
-    this.service = new ecs.Ec2Service(this, "Service", {
+    const isBlueGreen = props.deploymentStrategy === "BLUE_GREEN";
+    const desiredCount = props.desiredCapacity || 1;
+    const serviceProps = {
       cluster: this.cluster,
-      taskDefinition: this.taskDefinition,
-      desiredCount: props.desiredCapacity || 1,
+      desiredCount,
       serviceName: `ecs-service-${props.envName}`,
+      enableExecuteCommand: props.enableExec,
 
-      // Placement strategy for better distribution
-      placementStrategies: [
-        ecs.PlacementStrategy.spreadAcrossInstances(),
-        ecs.PlacementStrategy.packedByCpu(),
-      ],
-
-      // Circuit breaker DISABLED for debugging
-      // Must explicitly set enable: false to disable it
-      // Re-enable after debugging: circuitBreaker: { enable: true, rollback: true }
-      circuitBreaker: {
-        enable: false,
-        rollback: false, // Completely disable circuit breaker
-      },
+      // Give Next.js time to boot before load balancer health checks count
+      healthCheckGracePeriod: props.healthCheckGracePeriod,
+
+      // CodeDeploy owns task set replacement and rollback for blue/green
+      deploymentController: isBlueGreen
+        ? { type: ecs.DeploymentControllerType.CODE_DEPLOY }
+        : undefined,
+
+      // Circuit breaker rolls back deployments whose tasks never stabilize
+      circuitBreaker: isBlueGreen
+        ? undefined
+        : { enable: true, rollback: true },
+
+      // Alarm-based rollback (e.g. CPU, memory, 5xx) on top of the breaker
+      deploymentAlarms:
+        !isBlueGreen && props.deploymentAlarmNames?.length
+          ? {
+              alarmNames: props.deploymentAlarmNames,
+              behavior: ecs.AlarmBehavior.ROLLBACK_ON_ALARM,
+            }
+          : undefined,
 
       // Deployment configuration
-      minHealthyPercent: 0, // Allow all tasks to be stopped (for initial deployment)
-      maxHealthyPercent: 200, // Allow up to 200% of tasks during deployment
-    });
+      // New tasks must be healthy before old ones stop, so deploys have no downtime
+      minHealthyPercent: isBlueGreen ? undefined : 100,
+      maxHealthyPercent: isBlueGreen ? undefined : 200, // Room for the replacement tasks
+    };
+
+    if (isEc2) {
+      this.service = new ecs.Ec2Service(this, "Service", {
+        ...serviceProps,
+        taskDefinition: this.taskDefinition,
+
+        // Place tasks through the capacity provider so instances follow demand
+        capacityProviderStrategies: this.capacityProvider
+          ? [
+              {
+                capacityProvider: this.capacityProvider.capacityProviderName,
+                weight: 1,
+              },
+            ]
+          : undefined,
+
+        // Placement strategy for better distribution
+        placementStrategies: [
+          ecs.PlacementStrategy.spreadAcrossInstances(),
+          ecs.PlacementStrategy.packedByCpu(),
+        ],
+      });
+    } else {
+      this.service = new ecs.FargateService(this, "Service", {
+        ...serviceProps,
+        taskDefinition: this.taskDefinition,
+
+        // Tasks in PUBLIC subnets need a public IP to pull images (no NAT)
+        vpcSubnets: {
+          subnetType: this.subnetType(props),
+        },
+        assignPublicIp: this.isPublic(props),
+        securityGroups: props.taskSecurityGroup && [props.taskSecurityGroup],
+
+        capacityProviderStrategies: this.fargateCapacityProviderStrategies(
+          launchMode,
+          props
+        ),
+      });
+    }
+
+    // Service creation fails if the capacity provider is not yet associated
+    if (this.capacityProvider) {
+      this.service.node.addDependency(this.cluster);
+    }
+
+    // 6. Target tracking on task count (optional)
+    // Scheduled actions need a scalable target even without target tracking
+    const taskBounds = {
+      minCapacity: props.autoScaling?.minTasks ?? desiredCount,
+      maxCapacity: props.autoScaling?.maxTasks ?? desiredCount,
+    };
+    if (props.autoScaling || props.schedule) {
+      this.scalableTaskCount = this.service.autoScaleTaskCount(taskBounds);
+    }
+
+    if (props.autoScaling && this.scalableTaskCount) {
+      this.scalableTaskCount.scaleOnCpuUtilization("CpuScaling", {
+        targetUtilizationPercent: props.autoScaling.targetCpuPercent ?? 70,
+        scaleInCooldown: Duration.minutes(5),
+        scaleOutCooldown: Duration.minutes(1),
+      });
+
+      this.scalableTaskCount.scaleOnMemoryUtilization("MemoryScaling", {
+        targetUtilizationPercent: props.autoScaling.targetMemoryPercent ?? 80,
+        scaleInCooldown: Duration.minutes(5),
+        scaleOutCooldown: Duration.minutes(1),
+      });
+    }
+
+    // 7. Scale to zero outside working hours (optional)
+    if (props.schedule && this.scalableTaskCount) {
+      this.scheduleDescription = this.scheduleScaleToZero(
+        props,
+        props.schedule,
+        this.scalableTaskCount,
+        taskBounds
+      );
+    }
 
     // Tag service
     Tags.of(this.service).add("Environment", props.envName);
     Tags.of(this.service).add("ManagedBy", "CDK");
     Tags.of(this.service).add("Service", "ECS");
   }
+
+  private containerHealthCheck(
+    options: ContainerHealthCheckOptions,
+    containerPort: number
+  ): ecs.HealthCheck {
+    const path = options.path || "/api/health";
+    // Same check as the Dockerfile, node is the only tool in the runtime image
+    const command = options.command || [
+      "CMD-SHELL",
+      `node -e "const port = process.env.PORT || ${containerPort}; ` +
+        `require('http').get('http://localhost:' + port + '${path}', ` +
+        `(r) => {process.exit(r.statusCode === 200 ? 0 : 1)})" || exit 1`,
+    ];
+
+    return {
+      command,
+      interval: options.interval || Duration.seconds(30),
+      timeout: options.timeout || Duration.seconds(3),
+      startPeriod: options.startPeriod || Duration.seconds(5),
+      retries: options.retries ?? 3,
+    };
+  }
+
+  // Import each referenced secret so the execution role is granted just that one
+  private resolveSecrets(
+    props: EcsConstructProps
+  ): { [key: string]: ecs.Secret } | undefined {
+    if (!props.secrets) {
+      return undefined;
+    }
+
+    const secrets: { [key: string]: ecs.Secret } = {};
+    for (const [key, reference] of Object.entries(props.secrets)) {
+      if (props.environment && key in props.environment) {
+        throw new Error(`${key} is defined as both an env var and a secret`);
+      }
+
+      if (reference.source === "SECRETS_MANAGER") {
+        const secret = secretsmanager.Secret.fromSecretCompleteArn(
+          this,
+          `Secret-${key}`,
+          reference.name
+        );
+        secrets[key] = ecs.Secret.fromSecretsManager(secret, reference.jsonKey);
+      } else {
+        if (reference.jsonKey) {
+          throw new Error(
+            `jsonKey is only supported for Secrets Manager (${key})`
+          );
+        }
+
+        const parameter =
+          ssm.StringParameter.fromSecureStringParameterAttributes(
+            this,
+            `Parameter-${key}`,
+            { parameterName: reference.name }
+          );
+        secrets[key] = ecs.Secret.fromSsmParameter(parameter);
+      }
+    }
+
+    return secrets;
+  }
+
+  // ASG via addCapacity(), or a capacity provider with managed scaling
+  private createEc2Capacity(props: EcsConstructProps): {
+    asg: autoscaling.AutoScalingGroup;
+    capacityProvider?: ecs.AsgCapacityProvider;
+  } {
+    const amiType = props.amiType ?? "AL2";
+    const isArm = amiType.endsWith("_ARM64");
+    const isBottlerocket = amiType.startsWith("BOTTLEROCKET");
+
+    const instanceType =
+      props.instanceType ||
+      new ec2.InstanceType(isArm ? "t4g.micro" : "t3.micro");
+    const architecture = isArm
+      ? ec2.InstanceArchitecture.ARM_64
+      : ec2.InstanceArchitecture.X86_64;
+    if (instanceType.architecture !== architecture) {
+      throw new Error(
+        `Instance type ${instanceType} does not match the ${amiType} image (${architecture})`
+      );
+    }
+
+    for (const spotInstanceType of props.spotCapacity?.instanceTypes || []) {
+      if (spotInstanceType.architecture !== architecture) {
+        throw new Error(
+          `Spot instance type ${spotInstanceType} does not match the ${amiType} image (${architecture})`
+        );
+      }
+    }
+
+    // Bottlerocket keeps images and containers on its second (data) volume,
+    // its OS volume only has to fit the image
+    const volumes = isBottlerocket
+      ? [
+          { deviceName: "/dev/xvda", sizeGiB: BOTTLEROCKET_OS_VOLUME_GIB },
+          { deviceName: "/dev/xvdb", sizeGiB: props.rootVolumeSizeGiB ?? 20 },
+        ]
+      : [{ deviceName: "/dev/xvda", sizeGiB: props.rootVolumeSizeGiB ?? 30 }];
+
+    const capacityOptions = {
+      instanceType,
+      machineImage: ecsMachineImage(amiType),
+      minCapacity: props.minCapacity || 1,
+      maxCapacity: props.maxCapacity || 2,
+
+      // PUBLIC subnets by default (no NAT gateway needed)
+      vpcSubnets: {
+        subnetType: this.subnetType(props),
+      },
+
+      // Auto-assign public IP for internet access in PUBLIC subnets
+      associatePublicIpAddress: this.isPublic(props),
+
+      // addCapacity() hands its options on to the AutoScalingGroup
+      securityGroup: props.instanceSecurityGroup,
+
+      // IMDSv1 is disabled, hop limit is set below
+      requireImdsv2: true,
+
+      blockDevices: volumes.map((volume) => ({
+        deviceName: volume.deviceName,
+        volume: autoscaling.BlockDeviceVolume.ebs(volume.sizeGiB, {
+          encrypted: true,
+          volumeType: autoscaling.EbsDeviceVolumeType.GP3,
+        }),
+      })),
+    };
+
+    // Spot capacity is only reachable through the capacity provider
+    if (!props.enableCapacityProvider && !props.spotCapacity) {
+      const asg = this.cluster.addCapacity("DefaultAutoScalingGroup", {
+        ...capacityOptions,
+        desiredCapacity: props.desiredCapacity || 1,
+      });
+      this.setMetadataHopLimit(asg, props.imdsHopLimit ?? 1);
+
+      return { asg };
+    }
+
+    // Same scope and ID as addCapacity() so the ASG keeps its logical ID
+    // Desired capacity is left to ECS managed scaling
+    let asg: autoscaling.AutoScalingGroup;
+    if (props.spotCapacity) {
+      asg = this.createSpotAutoScalingGroup(
+        props,
+        props.spotCapacity,
+        capacityOptions.machineImage,
+        volumes,
+        isBottlerocket
+      );
+    } else {
+      asg = new autoscaling.AutoScalingGroup(
+        this.cluster,
+        "DefaultAutoScalingGroup",
+        {
+          vpc: props.vpc,
+          ...capacityOptions,
+        }
+      );
+      this.setMetadataHopLimit(asg, props.imdsHopLimit ?? 1);
+    }
+
+    const capacityProvider = new ecs.AsgCapacityProvider(
+      this,
+      "AsgCapacityProvider",
+      {
+        autoScalingGroup: asg,
+        capacityProviderName: `asg-cp-${props.envName}`,
+        machineImageType: isBottlerocket
+          ? ecs.MachineImageType.BOTTLEROCKET
+          : ecs.MachineImageType.AMAZON_LINUX_2,
+        enableManagedScaling: true,
+        targetCapacityPercent: props.capacityProviderTargetPercent ?? 100,
+        // Scale-in protection would block instance replacement on deploys
+        enableManagedTerminationProtection: false,
+        // Tasks move off instances before they are terminated
+        enableManagedDraining: true,
+      }
+    );
+
+    this.cluster.addAsgCapacityProvider(capacityProvider);
+
+    // Unlike addCapacity(), the capacity provider doesn't add the instance
+    // security group to the cluster, so load balancer rules would miss it
+    this.cluster.connections.addSecurityGroup(
+      ...asg.connections.securityGroups
+    );
+
+    // The agent drains the instance when the Spot interruption notice arrives
+    // CDK only adds this for spotPrice ASGs, not mixed instances policies
+    if (props.spotCapacity) {
+      asg.addUserData(
+        isBottlerocket
+          ? "enable-spot-instance-draining = true" // Appended to [settings.ecs]
+          : "echo ECS_ENABLE_SPOT_INSTANCE_DRAINING=true >> /etc/ecs/ecs.config"
+      );
+    }
+
+    return { asg, capacityProvider };
+  }
+
+  // A mixed instances policy needs an explicit launch template, which also
+  // has to provide the role, security group and user data ECS configures
+  private createSpotAutoScalingGroup(
+    props: EcsConstructProps,
+    spot: SpotCapacityOptions,
+    machineImage: ec2.IMachineImage,
+    volumes: { deviceName: string; sizeGiB: number }[],
+    isBottlerocket: boolean
+  ): autoscaling.AutoScalingGroup {
+    if (spot.instanceTypes.length === 0) {
+      throw new Error("spotCapacity requires at least one instance type");
+    }
+
+    const launchTemplate = new ec2.LaunchTemplate(this, "LaunchTemplate", {
+      machineImage,
+      role: new iam.Role(this, "InstanceRole", {
+        assumedBy: new iam.ServicePrincipal("ec2.amazonaws.com"),
+      }),
+      securityGroup:
+        props.instanceSecurityGroup ||
+        new ec2.SecurityGroup(this, "InstanceSecurityGroup", {
+          vpc: props.vpc,
+        }),
+      // Bottlerocket user data is TOML, ECS appends its settings to it
+      userData: isBottlerocket
+        ? ec2.UserData.custom("")
+        : ec2.UserData.forLinux(),
+      associatePublicIpAddress: this.isPublic(props),
+      requireImdsv2: true,
+      httpPutResponseHopLimit: props.imdsHopLimit ?? 1,
+      blockDevices: volumes.map((volume) => ({
+        deviceName: volume.deviceName,
+        volume: ec2.BlockDeviceVolume.ebs(volume.sizeGiB, {
+          encrypted: true,
+          volumeType: ec2.EbsDeviceVolumeType.GP3,
+        }),
+      })),
+    });
+
+    return new autoscaling.AutoScalingGroup(
+      this.cluster,
+      "DefaultAutoScalingGroup",
+      {
+        vpc: props.vpc,
+        vpcSubnets: {
+          subnetType: this.subnetType(props),
+        },
+        minCapacity: props.minCapacity || 1,
+        maxCapacity: props.maxCapacity || 2,
+        // Replace Spot instances at elevated risk before they are interrupted
+        capacityRebalance: true,
+        mixedInstancesPolicy: {
+          launchTemplate,
+          instancesDistribution: {
+            onDemandBaseCapacity: spot.onDemandBaseCapacity ?? 0,
+            onDemandPercentageAboveBaseCapacity:
+              spot.onDemandPercentageAboveBase ?? 0,
+            spotAllocationStrategy:
+              autoscaling.SpotAllocationStrategy.PRICE_CAPACITY_OPTIMIZED,
+          },
+          launchTemplateOverrides: spot.instanceTypes.map((instanceType) => ({
+            instanceType,
+          })),
+        },
+      }
+    );
+  }
+
+  // The ASG exposes requireImdsv2 but not the hop limit, so it is set on
+  // whichever launch config or template the ASG generated
+  private setMetadataHopLimit(
+    asg: autoscaling.AutoScalingGroup,
+    hopLimit: number
+  ): void {
+    const launchConfig = asg.node.tryFindChild("LaunchConfig") as
+      | autoscaling.CfnLaunchConfiguration
+      | undefined;
+    launchConfig?.addPropertyOverride(
+      "MetadataOptions.HttpPutResponseHopLimit",
+      hopLimit
+    );
+
+    const launchTemplate = asg.node.tryFindChild("LaunchTemplate") as
+      | ec2.LaunchTemplate
+      | undefined;
+    (
+      launchTemplate?.node.defaultChild as ec2.CfnLaunchTemplate | undefined
+    )?.addPropertyOverride(
+      "LaunchTemplateData.MetadataOptions.HttpPutResponseHopLimit",
+      hopLimit
+    );
+  }
+
+  // Stopping sets both bounds to zero so target tracking can't scale back out
+  // Starting restores the bounds, managed scaling then brings instances back
+  private scheduleScaleToZero(
+    props: EcsConstructProps,
+    schedule: ScaleToZeroSchedule,
+    taskCount: ecs.ScalableTaskCount,
+    taskBounds: { minCapacity: number; maxCapacity: number }
+  ): string {
+    const stopAt = appscaling.Schedule.cron(schedule.stopAt);
+    const startAt = appscaling.Schedule.cron(schedule.startAt);
+
+    taskCount.scaleOnSchedule("StopTasks", {
+      schedule: stopAt,
+      timeZone: schedule.timeZone,
+      minCapacity: 0,
+      maxCapacity: 0,
+    });
+
+    taskCount.scaleOnSchedule("StartTasks", {
+      schedule: startAt,
+      timeZone: schedule.timeZone,
+      ...taskBounds,
+    });
+
+    if (this.asg) {
+      // Auto Scaling uses unix cron, which has no year field
+      const asgSchedule = ({
+        minute,
+        hour,
+        day,
+        month,
+        weekDay,
+      }: appscaling.CronOptions) =>
+        autoscaling.Schedule.cron({ minute, hour, day, month, weekDay });
+
+      this.asg.scaleOnSchedule("StopInstances", {
+        schedule: asgSchedule(schedule.stopAt),
+        timeZone: schedule.timeZone?.timezoneName,
+        minCapacity: 0,
+        maxCapacity: 0,
+        desiredCapacity: 0,
+      });
+
+      this.asg.scaleOnSchedule("StartInstances", {
+        schedule: asgSchedule(schedule.startAt),
+        timeZone: schedule.timeZone?.timezoneName,
+        minCapacity: props.minCapacity || 1,
+        maxCapacity: props.maxCapacity || 2,
+        // Managed scaling owns the desired capacity with a capacity provider
+        desiredCapacity: this.capacityProvider
+          ? undefined
+          : props.desiredCapacity || 1,
+      });
+    }
+
+    const timeZone = schedule.timeZone?.timezoneName || "UTC";
+    return `stop ${stopAt.expressionString}, start ${startAt.expressionString} (${timeZone})`;
+  }
+
+  private subnetType(props: EcsConstructProps): ec2.SubnetType {
+    return props.subnetType ?? ec2.SubnetType.PUBLIC;
+  }
+
+  // Only PUBLIC subnets route to the internet gateway
+  private isPublic(props: EcsConstructProps): boolean {
+    return this.subnetType(props) === ec2.SubnetType.PUBLIC;
+  }
+
+  // FARGATE returns undefined so the service keeps the FARGATE launch type
+  private fargateCapacityProviderStrategies(
+    launchMode: EcsLaunchMode,
+    props: EcsConstructProps
+  ): ecs.CapacityProviderStrategy[] | undefined {
+    switch (launchMode) {
+      case "FARGATE_SPOT":
+        return [{ capacityProvider: "FARGATE_SPOT", weight: 1 }];
+      case "MIXED":
+        return [
+          {
+            capacityProvider: "FARGATE",
+            base: props.fargateBaseTasks ?? 1,
+            weight: 1,
+          },
+          {
+            capacityProvider: "FARGATE_SPOT",
+            weight: props.fargateSpotWeight ?? 3,
+          },
+        ];
+      default:
+        return undefined;
+    }
+  }
 }
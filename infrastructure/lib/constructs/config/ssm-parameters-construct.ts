@@ -9,9 +9,10 @@ import * as ecs from "aws-cdk-lib/aws-ecs";
 export interface SsmParametersConstructProps {
   envName: string;
   vpc: ec2.IVpc;
-  repository: ecr.Repository;
-  cluster: ecs.ICluster;
-  service: ecs.IService;
+  repository?: ecr.Repository; // Stacks only publish the resources they own
+  cluster?: ecs.ICluster;
+  service?: ecs.IService;
+  vpcEndpointIds?: { [name: string]: string }; // e.g. VpcEndpointsConstruct.endpointIds
 }
 
 /**
@@ -19,6 +20,10 @@ export interface SsmParametersConstructProps {
  *
  * This allows other services and pipelines to discover infrastructure
  * resources dynamically without hardcoding values.
+ *
+ * VPC endpoint IDs are published as /vpc/{envName}/endpoints/{name}, so
+ * stacks can check an endpoint exists (or attach policies) before relying
+ * on it.
  */
 export class SsmParametersConstruct extends Construct {
   constructor(
@@ -36,48 +41,64 @@ export class SsmParametersConstruct extends Construct {
       tier: ssm.ParameterTier.STANDARD,
     });
 
+    // VPC Endpoint Parameters
+    for (const [name, endpointId] of Object.entries(
+      props.vpcEndpointIds || {}
+    )) {
+      new ssm.StringParameter(this, `VpcEndpoint-${name}`, {
+        parameterName: `/vpc/${props.envName}/endpoints/${name}`,
+        stringValue: endpointId,
+        description: `VPC endpoint ${name} for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
+    }
+
     // ECR Parameters
-    new ssm.StringParameter(this, "RepositoryUriParameter", {
-      parameterName: `/ecr/${props.envName}/repository-uri`,
-      stringValue: props.repository.repositoryUri,
-      description: `ECR Repository URI for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+    if (props.repository) {
+      new ssm.StringParameter(this, "RepositoryUriParameter", {
+        parameterName: `/ecr/${props.envName}/repository-uri`,
+        stringValue: props.repository.repositoryUri,
+        description: `ECR Repository URI for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
 
-    new ssm.StringParameter(this, "RepositoryArnParameter", {
-      parameterName: `/ecr/${props.envName}/repository-arn`,
-      stringValue: props.repository.repositoryArn,
-      description: `ECR Repository ARN for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+      new ssm.StringParameter(this, "RepositoryArnParameter", {
+        parameterName: `/ecr/${props.envName}/repository-arn`,
+        stringValue: props.repository.repositoryArn,
+        description: `ECR Repository ARN for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
 
-    new ssm.StringParameter(this, "RepositoryNameParameter", {
-      parameterName: `/ecr/${props.envName}/repository-name`,
-      stringValue: props.repository.repositoryName,
-      description: `ECR Repository Name for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+      new ssm.StringParameter(this, "RepositoryNameParameter", {
+        parameterName: `/ecr/${props.envName}/repository-name`,
+        stringValue: props.repository.repositoryName,
+        description: `ECR Repository Name for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
+    }
 
     // ECS Parameters
-    new ssm.StringParameter(this, "EcsClusterNameParameter", {
-      parameterName: `/ecs/${props.envName}/cluster-name`,
-      stringValue: props.cluster.clusterName,
-      description: `ECS Cluster Name for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+    if (props.cluster && props.service) {
+      new ssm.StringParameter(this, "EcsClusterNameParameter", {
+        parameterName: `/ecs/${props.envName}/cluster-name`,
+        stringValue: props.cluster.clusterName,
+        description: `ECS Cluster Name for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
 
-    new ssm.StringParameter(this, "EcsClusterArnParameter", {
-      parameterName: `/ecs/${props.envName}/cluster-arn`,
-      stringValue: props.cluster.clusterArn,
-      description: `ECS Cluster ARN for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+      new ssm.StringParameter(this, "EcsClusterArnParameter", {
+        parameterName: `/ecs/${props.envName}/cluster-arn`,
+        stringValue: props.cluster.clusterArn,
+        description: `ECS Cluster ARN for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
 
-    new ssm.StringParameter(this, "EcsServiceNameParameter", {
-      parameterName: `/ecs/${props.envName}/service-name`,
-      stringValue: props.service.serviceName,
-      description: `ECS Service Name for ${props.envName} environment`,
-      tier: ssm.ParameterTier.STANDARD,
-    });
+      new ssm.StringParameter(this, "EcsServiceNameParameter", {
+        parameterName: `/ecs/${props.envName}/service-name`,
+        stringValue: props.service.serviceName,
+        description: `ECS Service Name for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
+    }
   }
 }
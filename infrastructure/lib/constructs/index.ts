@@ -2,13 +2,23 @@
 
 // Networking constructs
 export * from "./networking/vpc-construct";
+export * from "./networking/vpc-endpoints-construct";
+export * from "./networking/ip-address-plan";
+export * from "./networking/load-balancer-construct";
+export * from "./networking/security-groups-construct";
+export * from "./networking/waf-construct";
+export * from "./networking/cloudfront-construct";
 
 // Storage constructs
 export * from "./storage/ecr-construct";
+export * from "./storage/ecr-lifecycle-policy";
+export * from "./storage/asset-bucket-construct";
+export * from "./storage/static-site-construct";
 
 // Compute constructs
 export * from "./compute/ecs-construct";
 export * from "./compute/container-image-construct";
+export * from "./compute/blue-green-deployment-construct";
 
 // Monitoring constructs
 export * from "./monitoring/monitoring-construct";
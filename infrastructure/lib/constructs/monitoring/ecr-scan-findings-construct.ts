@@ -0,0 +1,144 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as sns from "aws-cdk-lib/aws-sns";
+import { Construct } from "constructs";
+
+// Severities that alert, lower ones are only counted in the log group
+const ALERT_SEVERITIES = ["CRITICAL", "HIGH"];
+
+export interface EcrScanFindingsConstructProps {
+  envName: string;
+  repositoryName: string; // Repository whose scan results are watched
+  alarmTopic: sns.ITopic; // Receives a summary of CRITICAL/HIGH findings
+  logRetentionDays?: logs.RetentionDays; // Default: ONE_MONTH
+}
+
+/**
+ * Alerts on vulnerable images pushed to the environment's ECR repository
+ *
+ * Basic scans report "ECR Image Scan" events and enhanced (Inspector) scans
+ * "Inspector2 Scan" events, both with finding-severity-counts. Every
+ * completed scan is logged, and metric filters publish the CRITICAL and HIGH
+ * counts of the latest scan under ECR/ScanFindings. Scans with CRITICAL or
+ * HIGH findings are also sent to the alarm topic as a short summary.
+ *
+ * Basic scan events omit severities without findings, those scans count
+ * as 0 through the metric filter's default value.
+ */
+export class EcrScanFindingsConstruct extends Construct {
+  public readonly logGroup: logs.LogGroup;
+  public readonly criticalFindingsMetric: cloudwatch.Metric;
+  public readonly highFindingsMetric: cloudwatch.Metric;
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: EcrScanFindingsConstructProps
+  ) {
+    super(scope, id);
+
+    // Inspector identifies the repository by ARN, basic scans by name
+    const repositoryArn = cdk.Stack.of(this).formatArn({
+      service: "ecr",
+      resource: "repository",
+      resourceName: props.repositoryName,
+    });
+
+    const completedScans: events.EventPattern = {
+      source: ["aws.ecr", "aws.inspector2"],
+      detailType: ["ECR Image Scan", "Inspector2 Scan"],
+      detail: {
+        "repository-name": [props.repositoryName, repositoryArn],
+        "scan-status": ["COMPLETE", "INITIAL_SCAN_COMPLETE"],
+      },
+    };
+
+    // 1. Log every completed scan
+    this.logGroup = new logs.LogGroup(this, "ScanLogGroup", {
+      logGroupName: `/aws/events/ecr-scan-findings-${props.envName}`,
+      retention: props.logRetentionDays || logs.RetentionDays.ONE_MONTH,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    const scanCompleteRule = new events.Rule(this, "ScanCompleteRule", {
+      ruleName: `ecr-scan-complete-${props.envName}`,
+      description: `Log ECR image scan results in ${props.envName}`,
+      eventPattern: completedScans,
+    });
+
+    scanCompleteRule.addTarget(new targets.CloudWatchLogGroup(this.logGroup));
+
+    // 2. Findings count per severity of the latest scan
+    this.criticalFindingsMetric = this.addFindingsMetric(
+      "CRITICAL",
+      "CriticalFindings"
+    );
+    this.highFindingsMetric = this.addFindingsMetric("HIGH", "HighFindings");
+
+    // 3. Summary of CRITICAL/HIGH findings to the alarm topic
+    const findingsRule = new events.Rule(this, "FindingsAlertRule", {
+      ruleName: `ecr-scan-findings-${props.envName}`,
+      description: `Alert on CRITICAL/HIGH ECR image scan findings in ${props.envName}`,
+      eventPattern: {
+        ...completedScans,
+        detail: {
+          ...completedScans.detail,
+          $or: ALERT_SEVERITIES.map((severity) => ({
+            "finding-severity-counts": {
+              [severity]: events.Match.greaterThan(0),
+            },
+          })),
+        },
+      },
+    });
+
+    const countOf = (severity: string) =>
+      events.EventField.fromPath(
+        `$.detail.finding-severity-counts.${severity}`
+      );
+
+    findingsRule.addTarget(
+      new targets.SnsTopic(props.alarmTopic, {
+        message: events.RuleTargetInput.fromMultilineText(
+          [
+            `Vulnerable image in ${props.envName} (${events.EventField.detailType})`,
+            `Repository: ${events.EventField.fromPath(
+              "$.detail.repository-name"
+            )}`,
+            `Tags: ${events.EventField.fromPath("$.detail.image-tags")}`,
+            `Digest: ${events.EventField.fromPath("$.detail.image-digest")}`,
+            `Critical: ${countOf("CRITICAL")} High: ${countOf("HIGH")}`,
+            `Scanned: ${events.EventField.time}`,
+          ].join("\n")
+        ),
+      })
+    );
+  }
+
+  private addFindingsMetric(
+    severity: string,
+    metricName: string
+  ): cloudwatch.Metric {
+    const field = `$.detail.finding-severity-counts.${severity}`;
+
+    this.logGroup.addMetricFilter(metricName, {
+      filterPattern: logs.FilterPattern.numberValue(field, ">=", 0),
+      metricNamespace: "ECR/ScanFindings",
+      metricName,
+      metricValue: field,
+      defaultValue: 0,
+    });
+
+    return new cloudwatch.Metric({
+      namespace: "ECR/ScanFindings",
+      metricName,
+      statistic: "Maximum",
+      period: cdk.Duration.hours(1),
+    });
+  }
+}
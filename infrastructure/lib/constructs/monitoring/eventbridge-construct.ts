@@ -195,6 +195,31 @@ export class EventBridgeConstruct extends Construct {
     securityRule.addTarget(new targets.SnsTopic(props.alarmTopic));
     securityRule.addTarget(new targets.CloudWatchLogGroup(eventLogGroup));
 
+    // Rule 7: ECR Image Scan Findings (alerted in the target account)
+    const ecrScanRule = new events.Rule(this, "EcrImageScanRule", {
+      eventBus: eventBus,
+      ruleName: "ecr-image-scan-findings",
+      description: "Capture ECR image scans with CRITICAL/HIGH findings",
+      eventPattern: {
+        source: ["aws.ecr"],
+        detailType: ["ECR Image Scan"],
+        detail: {
+          $or: [
+            {
+              "finding-severity-counts": {
+                CRITICAL: events.Match.greaterThan(0),
+              },
+            },
+            {
+              "finding-severity-counts": { HIGH: events.Match.greaterThan(0) },
+            },
+          ],
+        },
+      },
+    });
+
+    ecrScanRule.addTarget(new targets.CloudWatchLogGroup(eventLogGroup));
+
     // CloudFormation Outputs
     new cdk.CfnOutput(this, "EventBusArn", {
       value: eventBus.eventBusArn,
@@ -304,7 +329,7 @@ export class EventBridgeConstruct extends Construct {
       description: `Forward ECR events from ${props.envName} to pipeline account`,
       eventPattern: {
         source: ["aws.ecr"],
-        detailType: ["ECR Image Action"],
+        detailType: ["ECR Image Action", "ECR Image Scan"],
       },
     });
 
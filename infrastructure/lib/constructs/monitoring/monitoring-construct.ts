@@ -7,6 +7,17 @@ import * as sns from "aws-cdk-lib/aws-sns";
 import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
 import { Construct } from "constructs";
 
+// Alarm names are fixed so other stacks can reference them without exports
+// (e.g. deployment rollback in the compute stack)
+export function ecsAlarmNames(envName: string) {
+  return {
+    cpu: `${envName}-ecs-high-cpu`,
+    memory: `${envName}-ecs-high-memory`,
+    http5xx: `${envName}-alb-5xx`,
+    wafBlocked: `${envName}-waf-blocked-requests`,
+  };
+}
+
 export interface MonitoringConstructProps {
   envName: string;
   ecsClusterName: string;
@@ -14,15 +25,24 @@ export interface MonitoringConstructProps {
   alertEmail?: string;
   enableDashboard?: boolean;
   logRetentionDays?: logs.RetentionDays;
+  loadBalancerFullName?: string; // Enables the ALB 5xx alarm
+  webAclName?: string; // Enables the WAF blocked requests alarm (REGIONAL web ACL)
+  wafBlockedThreshold?: number; // Blocked requests per 5 minutes (default: 500)
 }
 
 export class MonitoringConstruct extends Construct {
   public readonly alarmTopic: sns.Topic;
   public readonly dashboard?: cloudwatch.Dashboard;
+  public readonly cpuAlarm: cloudwatch.Alarm;
+  public readonly memoryAlarm: cloudwatch.Alarm;
+  public readonly http5xxAlarm?: cloudwatch.Alarm;
+  public readonly wafBlockedAlarm?: cloudwatch.Alarm;
 
   constructor(scope: Construct, id: string, props: MonitoringConstructProps) {
     super(scope, id);
 
+    const alarmNames = ecsAlarmNames(props.envName);
+
     // Create SNS topic for alerts
     this.alarmTopic = new sns.Topic(this, "AlarmTopic", {
       displayName: `${props.envName} Infrastructure Alerts`,
@@ -86,8 +106,8 @@ export class MonitoringConstruct extends Construct {
     );
 
     // Alarm: ECS CPU Utilization
-    const cpuAlarm = new cloudwatch.Alarm(this, "EcsCpuAlarm", {
-      alarmName: `${props.envName}-ecs-high-cpu`,
+    this.cpuAlarm = new cloudwatch.Alarm(this, "EcsCpuAlarm", {
+      alarmName: alarmNames.cpu,
       alarmDescription: `Alert when ECS CPU utilization is high in ${props.envName}`,
       metric: new cloudwatch.Metric({
         namespace: "AWS/ECS",
@@ -105,13 +125,13 @@ export class MonitoringConstruct extends Construct {
         cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
       treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
     });
-    cpuAlarm.addAlarmAction(
+    this.cpuAlarm.addAlarmAction(
       new cdk.aws_cloudwatch_actions.SnsAction(this.alarmTopic)
     );
 
     // Alarm: ECS Memory Utilization
-    const memoryAlarm = new cloudwatch.Alarm(this, "EcsMemoryAlarm", {
-      alarmName: `${props.envName}-ecs-high-memory`,
+    this.memoryAlarm = new cloudwatch.Alarm(this, "EcsMemoryAlarm", {
+      alarmName: alarmNames.memory,
       alarmDescription: `Alert when ECS memory utilization is high in ${props.envName}`,
       metric: new cloudwatch.Metric({
         namespace: "AWS/ECS",
@@ -129,10 +149,63 @@ export class MonitoringConstruct extends Construct {
         cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
       treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
     });
-    memoryAlarm.addAlarmAction(
+    this.memoryAlarm.addAlarmAction(
       new cdk.aws_cloudwatch_actions.SnsAction(this.alarmTopic)
     );
 
+    // Alarm: ALB 5xx responses from the targets
+    // Short period so blue/green deployments roll back quickly
+    if (props.loadBalancerFullName) {
+      this.http5xxAlarm = new cloudwatch.Alarm(this, "Alb5xxAlarm", {
+        alarmName: alarmNames.http5xx,
+        alarmDescription: `Alert when targets return 5xx responses in ${props.envName}`,
+        metric: new cloudwatch.Metric({
+          namespace: "AWS/ApplicationELB",
+          metricName: "HTTPCode_Target_5XX_Count",
+          dimensionsMap: {
+            LoadBalancer: props.loadBalancerFullName,
+          },
+          statistic: "Sum",
+          period: cdk.Duration.minutes(1),
+        }),
+        threshold: 10,
+        evaluationPeriods: 1,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+      this.http5xxAlarm.addAlarmAction(
+        new cdk.aws_cloudwatch_actions.SnsAction(this.alarmTopic)
+      );
+    }
+
+    // Alarm: WAF blocked request spikes (an attack, or a rule blocking real users)
+    if (props.webAclName) {
+      this.wafBlockedAlarm = new cloudwatch.Alarm(this, "WafBlockedAlarm", {
+        alarmName: alarmNames.wafBlocked,
+        alarmDescription: `Alert when WAF blocks a spike of requests in ${props.envName}`,
+        metric: new cloudwatch.Metric({
+          namespace: "AWS/WAFV2",
+          metricName: "BlockedRequests",
+          dimensionsMap: {
+            WebACL: props.webAclName,
+            Rule: "ALL",
+            Region: cdk.Stack.of(this).region,
+          },
+          statistic: "Sum",
+          period: cdk.Duration.minutes(5),
+        }),
+        threshold: props.wafBlockedThreshold ?? 500,
+        evaluationPeriods: 1,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+      this.wafBlockedAlarm.addAlarmAction(
+        new cdk.aws_cloudwatch_actions.SnsAction(this.alarmTopic)
+      );
+    }
+
     // Create CloudWatch Dashboard (costs $3/month)
     if (props.enableDashboard) {
       this.dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
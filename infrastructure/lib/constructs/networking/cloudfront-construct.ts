@@ -0,0 +1,190 @@
+/** @format */
+
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { Annotations, Duration, Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+// Headers the App Router uses to request RSC payloads instead of HTML
+// from the same URL, so they must be part of the page cache key
+const NEXT_ROUTER_HEADERS = [
+  "RSC",
+  "Next-Router-Prefetch",
+  "Next-Router-State-Tree",
+  "Next-Url",
+];
+
+export interface CloudFrontConstructProps {
+  envName: string; // Names the cache policies and tags the distribution
+  loadBalancer: elbv2.IApplicationLoadBalancer; // Next.js origin
+  originDomainName?: string; // HTTPS to this ALB hostname (default: HTTP to the ALB DNS name)
+  domainNames?: string[]; // Aliases served by the distribution (requires certificate)
+  certificate?: acm.ICertificate; // Must be issued in us-east-1
+  priceClass?: cloudfront.PriceClass; // Default: PRICE_CLASS_100 (North America, Europe)
+  webAclArn?: string; // CLOUDFRONT scope web ACL, also created in us-east-1
+  assetBucketName?: string; // AssetBucketConstruct bucket served at /assets/*
+}
+
+/**
+ * CloudFront distribution in front of the Next.js ALB origin
+ *
+ * Cache behaviors:
+ * - /_next/static/*: content-hashed build output, cached for a year
+ * - /_next/image*: optimized images keyed on url, w, q and Accept
+ * - /feed.xml: cached as long as the route's s-maxage allows
+ * - /api/*: never cached, all methods and viewer headers forwarded
+ * - /assets/*: article images from the asset bucket (optional)
+ * - Everything else: pages, cached only when Next.js sends s-maxage
+ *
+ * Prerendered pages and the feed stay cached until they are invalidated,
+ * so the deploy workflow invalidates /* once the new tasks are running
+ * (see scripts/invalidate-cloudfront.sh). The distribution ID is published
+ * in SSM for that purpose by ComputeStack.
+ *
+ * The ALB origin is reached over HTTPS when originDomainName is given,
+ * which the ALB certificate must cover, and over HTTP otherwise.
+ */
+export class CloudFrontConstruct extends Construct {
+  public readonly distribution: cloudfront.Distribution;
+  public readonly staticCachePolicy: cloudfront.CachePolicy;
+  public readonly imageCachePolicy: cloudfront.CachePolicy;
+  public readonly feedCachePolicy: cloudfront.CachePolicy;
+  public readonly pageCachePolicy: cloudfront.CachePolicy;
+
+  constructor(scope: Construct, id: string, props: CloudFrontConstructProps) {
+    super(scope, id);
+
+    if (props.domainNames?.length && !props.certificate) {
+      throw new Error(
+        `certificate is required when domainNames are set (${props.domainNames.join(
+          ", "
+        )})`
+      );
+    }
+
+    const origin = props.originDomainName
+      ? new origins.HttpOrigin(props.originDomainName, {
+          protocolPolicy: cloudfront.OriginProtocolPolicy.HTTPS_ONLY,
+        })
+      : new origins.LoadBalancerV2Origin(props.loadBalancer, {
+          protocolPolicy: cloudfront.OriginProtocolPolicy.HTTP_ONLY,
+        });
+
+    // 1. Cache policies, compressed variants are cached separately
+    this.staticCachePolicy = new cloudfront.CachePolicy(this, "StaticCache", {
+      cachePolicyName: `${props.envName}-next-static`,
+      comment: "Immutable /_next/static build output",
+      minTtl: Duration.days(365),
+      defaultTtl: Duration.days(365),
+      maxTtl: Duration.days(365),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+
+    // Source images are imported, so url points at a content-hashed file
+    this.imageCachePolicy = new cloudfront.CachePolicy(this, "ImageCache", {
+      cachePolicyName: `${props.envName}-next-image`,
+      comment: "Next.js image optimizer output per size and format",
+      minTtl: Duration.days(1),
+      defaultTtl: Duration.days(7),
+      maxTtl: Duration.days(365),
+      queryStringBehavior: cloudfront.CacheQueryStringBehavior.allowList(
+        "url",
+        "w",
+        "q"
+      ),
+      // The optimizer picks AVIF or WebP from Accept
+      headerBehavior: cloudfront.CacheHeaderBehavior.allowList("Accept"),
+    });
+
+    this.feedCachePolicy = new cloudfront.CachePolicy(this, "FeedCache", {
+      cachePolicyName: `${props.envName}-feed`,
+      comment: "RSS feed, kept for the route's s-maxage until invalidated",
+      minTtl: Duration.seconds(0),
+      defaultTtl: Duration.days(1),
+      maxTtl: Duration.days(365),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+
+    // No default TTL: dynamic pages without s-maxage are not cached
+    this.pageCachePolicy = new cloudfront.CachePolicy(this, "PageCache", {
+      cachePolicyName: `${props.envName}-next-pages`,
+      comment: "Next.js pages and RSC payloads, as long as s-maxage allows",
+      minTtl: Duration.seconds(0),
+      defaultTtl: Duration.seconds(0),
+      maxTtl: Duration.days(365),
+      queryStringBehavior: cloudfront.CacheQueryStringBehavior.all(),
+      headerBehavior: cloudfront.CacheHeaderBehavior.allowList(
+        ...NEXT_ROUTER_HEADERS
+      ),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+
+    const cachedBehavior = (cachePolicy: cloudfront.ICachePolicy) => ({
+      origin,
+      cachePolicy,
+      viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+      allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+      compress: true,
+    });
+
+    // Asset keys carry the /assets/ prefix, so no origin path is needed
+    const assetBehaviors: Record<string, cloudfront.BehaviorOptions> = {};
+    if (props.assetBucketName) {
+      const assetBucket = s3.Bucket.fromBucketName(
+        this,
+        "AssetBucket",
+        props.assetBucketName
+      );
+      assetBehaviors["/assets/*"] = {
+        ...cachedBehavior(cloudfront.CachePolicy.CACHING_OPTIMIZED),
+        origin: origins.S3BucketOrigin.withOriginAccessControl(assetBucket),
+      };
+
+      // AssetBucketConstruct already allows this account's distributions
+      Annotations.of(this).acknowledgeWarning(
+        "@aws-cdk/aws-cloudfront-origins:updateImportedBucketPolicyOac",
+        "The asset bucket policy grants CloudFront read access"
+      );
+    }
+
+    // 2. Distribution
+    this.distribution = new cloudfront.Distribution(this, "Distribution", {
+      comment: `Next.js site (${props.envName})`,
+      defaultBehavior: {
+        ...cachedBehavior(this.pageCachePolicy),
+        allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD_OPTIONS,
+      },
+      additionalBehaviors: {
+        "/_next/static/*": cachedBehavior(this.staticCachePolicy),
+        "/_next/image*": cachedBehavior(this.imageCachePolicy),
+        "/feed.xml": cachedBehavior(this.feedCachePolicy),
+        "/api/*": {
+          origin,
+          cachePolicy: cloudfront.CachePolicy.CACHING_DISABLED,
+          // Host would not match the origin's certificate
+          originRequestPolicy:
+            cloudfront.OriginRequestPolicy.ALL_VIEWER_EXCEPT_HOST_HEADER,
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.HTTPS_ONLY,
+          allowedMethods: cloudfront.AllowedMethods.ALLOW_ALL,
+        },
+        ...assetBehaviors,
+      },
+      domainNames: props.domainNames,
+      certificate: props.certificate,
+      priceClass: props.priceClass ?? cloudfront.PriceClass.PRICE_CLASS_100,
+      httpVersion: cloudfront.HttpVersion.HTTP2_AND_3,
+      minimumProtocolVersion: cloudfront.SecurityPolicyProtocol.TLS_V1_2_2021,
+      webAclId: props.webAclArn,
+    });
+
+    // Tag distribution
+    Tags.of(this.distribution).add("Environment", props.envName);
+    Tags.of(this.distribution).add("ManagedBy", "CDK");
+  }
+}
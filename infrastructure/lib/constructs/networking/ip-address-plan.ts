@@ -0,0 +1,100 @@
+/** @format */
+
+// Addressing for one environment's VPC, planned up front so environments
+// can be peered or connected to other networks without overlapping
+export interface IpAddressPlan {
+  vpcCidr: string; // IPv4 block, e.g. 10.1.0.0/16
+  publicSubnetMask?: number; // Default: 24
+  privateSubnetMask?: number; // Default: 24
+  reservedRanges?: string[]; // Kept free for on-premises, VPN or partner networks
+  ipv6?: boolean; // Dual-stack subnets, private egress via an egress-only IGW
+  isolated?: boolean; // Deployed VPC awaiting migration, may overlap other isolated VPCs until then
+  plannedVpcCidr?: string; // Block an isolated VPC migrates to (required with isolated)
+}
+
+// Blocks other environments must stay clear of: an isolated VPC keeps its
+// deployed block and reserves the one it migrates to, other isolated VPCs
+// only have to stay clear of the latter
+function claimedCidrs(plan: IpAddressPlan, plannedOnly = false): string[] {
+  if (!plan.isolated || !plan.plannedVpcCidr) {
+    return [plan.vpcCidr];
+  }
+  return plannedOnly
+    ? [plan.plannedVpcCidr]
+    : [plan.vpcCidr, plan.plannedVpcCidr];
+}
+
+// First and last IPv4 address of a CIDR block, as integers
+export function cidrRange(cidr: string): [number, number] {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(
+    cidr
+  );
+  const octets = match ? match.slice(1, 5).map(Number) : [];
+  const prefix = match ? Number(match[5]) : NaN;
+
+  if (!match || octets.some((octet) => octet > 255) || prefix > 32) {
+    throw new Error(`Invalid IPv4 CIDR block: ${cidr}`);
+  }
+
+  const start = octets.reduce((address, octet) => address * 256 + octet, 0);
+  const size = 2 ** (32 - prefix);
+  if (start % size !== 0) {
+    throw new Error(`${cidr} has host bits set for a /${prefix} block`);
+  }
+
+  return [start, start + size - 1];
+}
+
+export function cidrsOverlap(a: string, b: string): boolean {
+  const [aStart, aEnd] = cidrRange(a);
+  const [bStart, bEnd] = cidrRange(b);
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+// Throws when two environments' VPCs overlap or a VPC overlaps a range
+// reserved by any environment. Isolated VPCs may only overlap each other,
+// their planned blocks are checked like any other VPC.
+export function validateIpAddressPlans(plans: {
+  [envName: string]: IpAddressPlan | undefined;
+}): void {
+  const planned = Object.entries(plans).filter(
+    (entry): entry is [string, IpAddressPlan] => entry[1] !== undefined
+  );
+  const reserved = planned.flatMap(([envName, plan]) =>
+    (plan.reservedRanges || []).map((range) => ({ envName, range }))
+  );
+
+  for (const [envName, plan] of planned) {
+    if (plan.isolated && !plan.plannedVpcCidr) {
+      throw new Error(
+        `${envName} is isolated on ${plan.vpcCidr}, plannedVpcCidr must name the block it migrates to`
+      );
+    }
+  }
+
+  planned.forEach(([envName, plan], index) => {
+    for (const [otherEnvName, otherPlan] of planned.slice(index + 1)) {
+      const bothIsolated = !!plan.isolated && !!otherPlan.isolated;
+
+      for (const cidr of claimedCidrs(plan, bothIsolated)) {
+        for (const otherCidr of claimedCidrs(otherPlan, bothIsolated)) {
+          if (cidrsOverlap(cidr, otherCidr)) {
+            throw new Error(
+              `VPC CIDR ${cidr} (${envName}) overlaps ${otherCidr} (${otherEnvName})`
+            );
+          }
+        }
+      }
+    }
+
+    for (const cidr of claimedCidrs(plan)) {
+      for (const { envName: owner, range } of reserved) {
+        if (cidrsOverlap(cidr, range)) {
+          throw new Error(
+            `VPC CIDR ${cidr} (${envName}) overlaps ${range} reserved by ${owner}`
+          );
+        }
+      }
+    }
+  });
+}
@@ -0,0 +1,213 @@
+/** @format */
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53Targets from "aws-cdk-lib/aws-route53-targets";
+import { Duration, Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+export interface LoadBalancerConstructProps {
+  vpc: ec2.IVpc;
+  envName: string; // Environment name for naming and tagging
+  service: ecs.BaseService; // ECS service registered as target
+  securityGroup?: ec2.ISecurityGroup; // See SecurityGroupsConstruct (default: CDK-created)
+  containerName?: string; // Container receiving traffic (default: app)
+  containerPort?: number; // Port the container listens on
+  healthCheckPath?: string; // Path polled by the target group
+  deregistrationDelay?: Duration; // Connection draining time
+  domainName?: string; // Enables HTTPS, e.g. dev.example.com or example.com
+  hostedZone?: route53.IHostedZone; // Zone for DNS validation and alias record
+  originDomainName?: string; // ALB hostname for a CDN serving domainName, e.g. origin.example.com
+  openListeners?: boolean; // Listener ports from anywhere (default: true), see SecurityGroupsConstruct
+  enableBlueGreen?: boolean; // Adds green target group and test listener
+  testListenerPort?: number; // Blue/green test traffic port (default: 9000)
+}
+
+/**
+ * Application Load Balancer in front of the ECS service
+ *
+ * The EC2 service uses dynamic host ports (hostPort: 0), so tasks are
+ * registered in the target group with whatever port ECS assigned them.
+ * The target group health-checks the Next.js /api/health route.
+ *
+ * When a domain name and hosted zone are provided, the construct also:
+ * - Issues a DNS-validated ACM certificate for the domain
+ * - Serves traffic on an HTTPS listener
+ * - Redirects HTTP to HTTPS
+ * - Creates a Route 53 alias record pointing at the ALB
+ *
+ * Behind a CDN, originDomainName gets the alias record and is added to the
+ * certificate, while the domain's own record is left to addDomainAlias()
+ * with the distribution as target.
+ *
+ * For CodeDeploy blue/green deployments it adds an empty green target group
+ * and a test listener that CodeDeploy shifts between during a deployment.
+ */
+export class LoadBalancerConstruct extends Construct {
+  public readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+  public readonly listener: elbv2.ApplicationListener;
+  public readonly targetGroup: elbv2.ApplicationTargetGroup;
+  public readonly certificate?: acm.ICertificate;
+  public readonly greenTargetGroup?: elbv2.ApplicationTargetGroup;
+  public readonly testListener?: elbv2.ApplicationListener;
+
+  private readonly domainName?: string;
+  private readonly hostedZone?: route53.IHostedZone;
+
+  constructor(scope: Construct, id: string, props: LoadBalancerConstructProps) {
+    super(scope, id);
+
+    this.domainName = props.domainName;
+    this.hostedZone = props.hostedZone;
+    const openListeners = props.openListeners ?? true;
+
+    // 1. Internet-facing ALB in PUBLIC subnets
+    this.loadBalancer = new elbv2.ApplicationLoadBalancer(this, "Alb", {
+      vpc: props.vpc,
+      internetFacing: true,
+      loadBalancerName: `alb-${props.envName}`,
+      securityGroup: props.securityGroup,
+      vpcSubnets: {
+        subnetType: ec2.SubnetType.PUBLIC,
+      },
+    });
+
+    // 2. Listeners (HTTPS when a domain is configured, HTTP otherwise)
+    if (props.domainName) {
+      if (!props.hostedZone) {
+        throw new Error(
+          `hostedZone is required when domainName is set (${props.domainName})`
+        );
+      }
+
+      this.certificate = new acm.Certificate(this, "Certificate", {
+        domainName: props.domainName,
+        subjectAlternativeNames: props.originDomainName
+          ? [props.originDomainName]
+          : undefined,
+        validation: acm.CertificateValidation.fromDns(props.hostedZone),
+      });
+
+      this.listener = this.loadBalancer.addListener("HttpsListener", {
+        port: 443,
+        protocol: elbv2.ApplicationProtocol.HTTPS,
+        certificates: [this.certificate],
+        sslPolicy: elbv2.SslPolicy.RECOMMENDED_TLS,
+        open: openListeners,
+      });
+
+      // Permanent redirect keeps plain HTTP links working
+      this.loadBalancer.addRedirect({
+        sourcePort: 80,
+        sourceProtocol: elbv2.ApplicationProtocol.HTTP,
+        targetPort: 443,
+        targetProtocol: elbv2.ApplicationProtocol.HTTPS,
+        open: openListeners,
+      });
+    } else {
+      this.listener = this.loadBalancer.addListener("HttpListener", {
+        port: 80,
+        protocol: elbv2.ApplicationProtocol.HTTP,
+        open: openListeners,
+      });
+    }
+
+    const healthCheck: elbv2.HealthCheck = {
+      path: props.healthCheckPath || "/api/health",
+      healthyHttpCodes: "200",
+      interval: Duration.seconds(30),
+      timeout: Duration.seconds(5),
+      healthyThresholdCount: 2,
+      unhealthyThresholdCount: 3,
+    };
+
+    // Next.js requests are short-lived, no need for the 300s default
+    const deregistrationDelay =
+      props.deregistrationDelay || Duration.seconds(30);
+
+    // 3. Register the service's dynamic ports in the target group
+    // For BRIDGE mode, CDK opens the ephemeral port range from the ALB
+    // to the cluster instances
+    this.targetGroup = this.listener.addTargets("EcsTargets", {
+      targetGroupName: `tg-${props.envName}`,
+      port: 80,
+      protocol: elbv2.ApplicationProtocol.HTTP,
+      targets: [
+        props.service.loadBalancerTarget({
+          containerName: props.containerName || "app",
+          containerPort: props.containerPort || 80,
+        }),
+      ],
+      healthCheck,
+      deregistrationDelay,
+    });
+
+    // Blue/green: CodeDeploy registers the replacement tasks in green
+    if (props.enableBlueGreen) {
+      this.greenTargetGroup = new elbv2.ApplicationTargetGroup(
+        this,
+        "GreenTargetGroup",
+        {
+          vpc: props.vpc,
+          targetGroupName: `tg-${props.envName}-green`,
+          port: 80,
+          protocol: elbv2.ApplicationProtocol.HTTP,
+          // Must match the blue target group (instance for BRIDGE, ip for AWSVPC)
+          targetType:
+            props.service.taskDefinition.networkMode === ecs.NetworkMode.AWS_VPC
+              ? elbv2.TargetType.IP
+              : elbv2.TargetType.INSTANCE,
+          healthCheck,
+          deregistrationDelay,
+        }
+      );
+
+      // Test traffic is not opened to the internet
+      this.testListener = this.loadBalancer.addListener("TestListener", {
+        port: props.testListenerPort || 9000,
+        protocol: this.certificate
+          ? elbv2.ApplicationProtocol.HTTPS
+          : elbv2.ApplicationProtocol.HTTP,
+        certificates: this.certificate ? [this.certificate] : undefined,
+        open: false,
+        defaultTargetGroups: [this.greenTargetGroup],
+      });
+    }
+
+    // 4. Alias record for the environment's domain, or the CDN origin
+    if (props.originDomainName && props.hostedZone) {
+      new route53.ARecord(this, "OriginAliasRecord", {
+        zone: props.hostedZone,
+        recordName: props.originDomainName,
+        target: route53.RecordTarget.fromAlias(
+          new route53Targets.LoadBalancerTarget(this.loadBalancer)
+        ),
+      });
+    } else if (props.domainName && props.hostedZone) {
+      this.addDomainAlias(
+        new route53Targets.LoadBalancerTarget(this.loadBalancer)
+      );
+    }
+
+    // Tag load balancer
+    Tags.of(this.loadBalancer).add("Environment", props.envName);
+    Tags.of(this.loadBalancer).add("ManagedBy", "CDK");
+  }
+
+  // Kept in this construct when a CDN takes over the domain, so the record
+  // is updated in place rather than recreated under the same name
+  public addDomainAlias(target: route53.IAliasRecordTarget): route53.ARecord {
+    if (!this.domainName || !this.hostedZone) {
+      throw new Error("domainName and hostedZone are required for the alias");
+    }
+
+    return new route53.ARecord(this, "AliasRecord", {
+      zone: this.hostedZone,
+      recordName: this.domainName,
+      target: route53.RecordTarget.fromAlias(target),
+    });
+  }
+}
@@ -0,0 +1,117 @@
+/** @format */
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+// Host ports ECS assigns to BRIDGE containers with hostPort: 0
+const EPHEMERAL_PORT_RANGE = ec2.Port.tcpRange(32768, 65535);
+
+export interface SecurityGroupsConstructProps {
+  vpc: ec2.IVpc;
+  envName: string; // Environment name for naming and tagging
+  listenerPorts: number[]; // Opened to the internet on the ALB, e.g. [80, 443]
+  listenerPeer?: ec2.IPeer; // Who reaches the listener ports (default: any IPv4)
+  containerPort: number; // Task port the ALB reaches in AWSVPC mode
+  containerPortPeers?: ec2.IPeer[]; // Allow-list reaching tasks directly, for tasks without a load balancer
+}
+
+// Peers that stand for the whole internet
+const ANY_ADDRESS = [ec2.Peer.anyIpv4().uniqueId, ec2.Peer.anyIpv6().uniqueId];
+
+/**
+ * Security groups for the load balancer, EC2 instances and Fargate tasks
+ *
+ * Only the ALB accepts traffic from the internet, and only on its listener
+ * ports. A listenerPeer narrows that down, e.g. to CloudFront's origin-facing
+ * prefix list when the ALB is a CDN origin. Instances accept the ephemeral
+ * range ECS maps BRIDGE containers to, and tasks their container port, both
+ * from the ALB security group only.
+ * Nothing else is reachable from outside: shells go through SSM.
+ *
+ * Without a load balancer, containerPortPeers opens the container port on
+ * the task group to an allow-list, e.g. an office CIDR, so tasks with a
+ * public IP can be reached directly. The whole internet is refused there.
+ * EC2 instances map containers to random host ports and stay closed.
+ *
+ * The ALB can only send traffic to the instance and task groups. Instances
+ * and tasks keep unrestricted egress for ECR, CloudWatch Logs and SSM.
+ *
+ * Pass the groups to LoadBalancerConstruct and EcsConstruct. Rules CDK adds
+ * when the ALB targets the service are identical and deduplicated.
+ */
+export class SecurityGroupsConstruct extends Construct {
+  public readonly albSecurityGroup: ec2.SecurityGroup;
+  public readonly instanceSecurityGroup: ec2.SecurityGroup; // EC2 launch mode
+  public readonly taskSecurityGroup: ec2.SecurityGroup; // Fargate launch modes
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: SecurityGroupsConstructProps
+  ) {
+    super(scope, id);
+
+    // 1. ALB: listener ports from anywhere (or the peer), egress to the targets only
+    this.albSecurityGroup = new ec2.SecurityGroup(this, "AlbSecurityGroup", {
+      vpc: props.vpc,
+      description: `ALB for ${props.envName}`,
+      allowAllOutbound: false,
+    });
+    for (const port of props.listenerPorts) {
+      this.albSecurityGroup.addIngressRule(
+        props.listenerPeer ?? ec2.Peer.anyIpv4(),
+        ec2.Port.tcp(port),
+        `Listener port ${port}`
+      );
+    }
+
+    // 2. EC2 instances: dynamic host ports from the ALB only
+    this.instanceSecurityGroup = new ec2.SecurityGroup(
+      this,
+      "InstanceSecurityGroup",
+      {
+        vpc: props.vpc,
+        description: `ECS instances for ${props.envName}`,
+      }
+    );
+    this.instanceSecurityGroup.connections.allowFrom(
+      this.albSecurityGroup,
+      EPHEMERAL_PORT_RANGE,
+      "Dynamic host ports from the ALB"
+    );
+
+    // 3. Fargate tasks: container port from the ALB only
+    this.taskSecurityGroup = new ec2.SecurityGroup(this, "TaskSecurityGroup", {
+      vpc: props.vpc,
+      description: `ECS tasks for ${props.envName}`,
+    });
+    this.taskSecurityGroup.connections.allowFrom(
+      this.albSecurityGroup,
+      ec2.Port.tcp(props.containerPort),
+      "Container port from the ALB"
+    );
+    for (const peer of props.containerPortPeers ?? []) {
+      if (ANY_ADDRESS.includes(peer.uniqueId)) {
+        throw new Error(
+          `${props.envName} tasks can't accept the container port from ${peer.uniqueId}, only the ALB listeners are open to the internet`
+        );
+      }
+      this.taskSecurityGroup.addIngressRule(
+        peer,
+        ec2.Port.tcp(props.containerPort),
+        "Container port, no load balancer"
+      );
+    }
+
+    // Tag security groups
+    for (const securityGroup of [
+      this.albSecurityGroup,
+      this.instanceSecurityGroup,
+      this.taskSecurityGroup,
+    ]) {
+      Tags.of(securityGroup).add("Environment", props.envName);
+      Tags.of(securityGroup).add("ManagedBy", "CDK");
+    }
+  }
+}
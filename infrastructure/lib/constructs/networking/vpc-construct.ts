@@ -1,36 +1,222 @@
 /**@format */
 
 import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { Annotations, Duration, Fn } from "aws-cdk-lib";
 import { Construct } from "constructs";
+import { IpAddressPlan, cidrRange, cidrsOverlap } from "./ip-address-plan";
+import {
+  VpcEndpointOptions,
+  VpcEndpointsConstruct,
+} from "./vpc-endpoints-construct";
+
+// How compute in the private subnets reaches ECR, CloudWatch and SSM
+// - NAT_INSTANCE: low-cost NAT instance instead of NAT gateways
+// - VPC_ENDPOINTS: no internet egress, AWS APIs through VPC endpoints
+export type PrivateEgress = "NAT_INSTANCE" | "VPC_ENDPOINTS";
+
+// CLOUDWATCH_LOGS can be queried with Logs Insights, S3 is cheaper to keep
+export type FlowLogDestination = "CLOUDWATCH_LOGS" | "S3";
+
+export interface FlowLogOptions {
+  destination?: FlowLogDestination; // Default: CLOUDWATCH_LOGS
+  trafficType?: "ALL" | "ACCEPT" | "REJECT"; // Default: REJECT
+  retentionDays?: number; // Log group retention or bucket expiration (default: 30)
+}
 
 // Properties for VpcContruct
 export interface VpcConstructProps {
   maxAzs?: number; //Maximum number of availability zones to use
-  natGateways?: number; // Number of NAT gateways to create
+  natGateways?: number; // Number of NAT gateways (or NAT instances) to create
+  ipPlan?: IpAddressPlan; // Default: 10.0.0.0/16 with /24 subnets, IPv4 only
+  privateEgress?: PrivateEgress; // Run compute in the private subnets
+  natInstanceType?: ec2.InstanceType; // NAT_INSTANCE: default t4g.nano
+  endpoints?: VpcEndpointOptions; // Toggles, endpoints are always created for VPC_ENDPOINTS
+  flowLogs?: FlowLogOptions; // Disabled when omitted
+  envName?: string; // Names the flow log group and saved query
 }
 
 export class VpcConstruct extends Construct {
   public readonly vpc: ec2.IVpc; // The VPC instance create by this construct
+  public readonly computeSubnetType: ec2.SubnetType; // Where instances and tasks run
+  public readonly ipv6CidrBlock?: string; // Dual-stack only
+  public readonly natInstanceProvider?: ec2.NatInstanceProviderV2; // NAT_INSTANCE only
+  public readonly endpoints?: VpcEndpointsConstruct; // VPC_ENDPOINTS or endpoints set
+  public readonly flowLogGroup?: logs.LogGroup; // CLOUDWATCH_LOGS flow logs only
+  public readonly flowLogBucket?: s3.Bucket; // S3 flow logs only
 
   constructor(scope: Construct, id: string, props?: VpcConstructProps) {
     super(scope, id);
 
-    this.vpc = new ec2.Vpc(this, "Vpc", {
+    const privateEgress = props?.privateEgress;
+    const ipPlan = props?.ipPlan;
+    if (ipPlan) {
+      this.validateIpPlan(ipPlan);
+    }
+
+    // Burstable NAT instance instead of a NAT gateway's hourly charge
+    if (privateEgress === "NAT_INSTANCE") {
+      const natInstanceType =
+        props?.natInstanceType || new ec2.InstanceType("t4g.nano");
+      this.natInstanceProvider = ec2.NatProvider.instanceV2({
+        instanceType: natInstanceType,
+        machineImage: ec2.MachineImage.latestAmazonLinux2023({
+          cpuType:
+            natInstanceType.architecture === ec2.InstanceArchitecture.ARM_64
+              ? ec2.AmazonLinuxCpuType.ARM_64
+              : ec2.AmazonLinuxCpuType.X86_64,
+        }),
+        // Inbound is opened to the VPC below, never to the internet
+        defaultAllowedTraffic: ec2.NatTrafficDirection.OUTBOUND_ONLY,
+      });
+    }
+
+    const vpc = new ec2.Vpc(this, "Vpc", {
       maxAzs: props?.maxAzs ?? 2,
-      natGateways: props?.natGateways ?? 0,
+      ipAddresses: ipPlan && ec2.IpAddresses.cidr(ipPlan.vpcCidr),
+      // Amazon-provided /56, one /64 per subnet
+      ipProtocol: ipPlan?.ipv6
+        ? ec2.IpProtocol.DUAL_STACK
+        : ec2.IpProtocol.IPV4_ONLY,
+      // A single NAT instance is enough for image pulls and logs
+      natGateways:
+        privateEgress === "NAT_INSTANCE"
+          ? props?.natGateways || 1
+          : props?.natGateways ?? 0,
+      natGatewayProvider: this.natInstanceProvider,
       subnetConfiguration: [
         {
-          cidrMask: 24,
+          cidrMask: ipPlan?.publicSubnetMask ?? 24,
           name: "Public",
           subnetType: ec2.SubnetType.PUBLIC,
           mapPublicIpOnLaunch: true,
         },
         {
-          cidrMask: 24,
+          cidrMask: ipPlan?.privateSubnetMask ?? 24,
           name: "Private",
-          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          // No default route, AWS APIs are reached through the endpoints
+          subnetType:
+            privateEgress === "VPC_ENDPOINTS"
+              ? ec2.SubnetType.PRIVATE_ISOLATED
+              : ec2.SubnetType.PRIVATE_WITH_EGRESS,
         },
       ],
     });
+    this.vpc = vpc;
+
+    if (ipPlan?.ipv6) {
+      this.ipv6CidrBlock = Fn.select(0, vpc.vpcIpv6CidrBlocks);
+    }
+
+    // Private subnets forward their traffic through the NAT instance
+    this.natInstanceProvider?.connections.allowFrom(
+      ec2.Peer.ipv4(this.vpc.vpcCidrBlock),
+      ec2.Port.allTraffic()
+    );
+
+    // Endpoints can also take ECR and logs traffic off a NAT instance
+    if (privateEgress === "VPC_ENDPOINTS" || props?.endpoints) {
+      this.endpoints = new VpcEndpointsConstruct(this, "Endpoints", {
+        vpc: this.vpc,
+        subnets: { subnetGroupName: "Private" },
+        ...props?.endpoints,
+      });
+    }
+
+    // Flow logs (optional): rejected connections to the instances, e.g. a
+    // missing security group rule, show up here
+    if (props?.flowLogs) {
+      const flowLogs = props.flowLogs;
+      const retentionDays = flowLogs.retentionDays ?? 30;
+      let destination: ec2.FlowLogDestination;
+
+      if (flowLogs.destination === "S3") {
+        this.flowLogBucket = new s3.Bucket(this, "FlowLogBucket", {
+          encryption: s3.BucketEncryption.S3_MANAGED,
+          blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+          enforceSSL: true,
+          lifecycleRules: [{ expiration: Duration.days(retentionDays) }],
+        });
+        destination = ec2.FlowLogDestination.toS3(this.flowLogBucket);
+      } else {
+        if (!Object.values(logs.RetentionDays).includes(retentionDays)) {
+          throw new Error(
+            `Flow log retention of ${retentionDays} days is not supported by CloudWatch Logs`
+          );
+        }
+
+        this.flowLogGroup = new logs.LogGroup(this, "FlowLogGroup", {
+          logGroupName: props.envName && `/vpc/${props.envName}/flow-logs`,
+          retention: retentionDays as logs.RetentionDays,
+        });
+        destination = ec2.FlowLogDestination.toCloudWatchLogs(
+          this.flowLogGroup
+        );
+
+        // Saved in the Logs Insights console, default format fields are discovered
+        new logs.QueryDefinition(this, "TopRejectedSourcesQuery", {
+          queryDefinitionName: props.envName
+            ? `${props.envName}/vpc-flow-logs/top-rejected-sources`
+            : "vpc-flow-logs/top-rejected-sources",
+          logGroups: [this.flowLogGroup],
+          queryString: new logs.QueryString({
+            filterStatements: ['action = "REJECT"'],
+            statsStatements: ["count(*) as rejected by srcAddr"],
+            sort: "rejected desc",
+            limit: 20,
+          }),
+        });
+      }
+
+      new ec2.FlowLog(this, "FlowLog", {
+        resourceType: ec2.FlowLogResourceType.fromVpc(this.vpc),
+        destination,
+        trafficType: ec2.FlowLogTrafficType[flowLogs.trafficType ?? "REJECT"],
+      });
+    }
+
+    this.computeSubnetType =
+      privateEgress === "VPC_ENDPOINTS"
+        ? ec2.SubnetType.PRIVATE_ISOLATED
+        : privateEgress === "NAT_INSTANCE"
+        ? ec2.SubnetType.PRIVATE_WITH_EGRESS
+        : ec2.SubnetType.PUBLIC;
+  }
+
+  // Subnet masks must fit inside the VPC and AWS allows /16 to /28 subnets
+  private validateIpPlan(ipPlan: IpAddressPlan): void {
+    cidrRange(ipPlan.vpcCidr); // Throws on a malformed block
+    const vpcPrefix = Number(ipPlan.vpcCidr.split("/")[1]);
+
+    for (const mask of [ipPlan.publicSubnetMask, ipPlan.privateSubnetMask]) {
+      if (mask !== undefined && (mask <= vpcPrefix || mask < 16 || mask > 28)) {
+        throw new Error(
+          `Subnet mask /${mask} does not fit VPC ${ipPlan.vpcCidr}`
+        );
+      }
+    }
+
+    for (const range of ipPlan.reservedRanges || []) {
+      if (cidrsOverlap(ipPlan.vpcCidr, range)) {
+        throw new Error(
+          `VPC CIDR ${ipPlan.vpcCidr} overlaps reserved range ${range}`
+        );
+      }
+    }
+
+    // Shows up on every synth until the VPC is migrated
+    if (ipPlan.isolated) {
+      if (!ipPlan.plannedVpcCidr) {
+        throw new Error(
+          `Isolated VPC ${ipPlan.vpcCidr} needs the plannedVpcCidr it migrates to`
+        );
+      }
+      cidrRange(ipPlan.plannedVpcCidr);
+      Annotations.of(this).addWarningV2(
+        "@app/networking:isolatedVpc",
+        `VPC ${ipPlan.vpcCidr} is isolated and can't be peered until it is migrated to ${ipPlan.plannedVpcCidr}`
+      );
+    }
   }
 }
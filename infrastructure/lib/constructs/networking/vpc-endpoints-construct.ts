@@ -0,0 +1,156 @@
+/** @format */
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { Construct } from "constructs";
+
+// Endpoint groups an ECS workload needs, all enabled by default
+export interface VpcEndpointOptions {
+  s3?: boolean; // Gateway: ECR image layers are served from S3
+  ecr?: boolean; // ecr.api and ecr.dkr for image pulls
+  cloudWatchLogs?: boolean; // awslogs driver and ECS Exec output
+  ecs?: boolean; // ecs, ecs-agent and ecs-telemetry for EC2 instances
+  ssm?: boolean; // ssm, ssmmessages and ec2messages: parameters, Exec, Session Manager
+  secretsManager?: boolean; // Container secrets
+  kms?: boolean; // ECS Exec session encryption
+}
+
+export interface VpcEndpointsConstructProps extends VpcEndpointOptions {
+  vpc: ec2.IVpc;
+  subnets?: ec2.SubnetSelection; // Interface endpoints (default: private subnets)
+}
+
+/**
+ * Gateway and interface VPC endpoints for the ECS workload
+ *
+ * Lets instances and tasks without internet egress pull images, ship logs,
+ * register with ECS and read secrets. Interface endpoints use private DNS,
+ * so the SDKs and the ECS agent need no configuration.
+ *
+ * All interface endpoints share one security group that only accepts HTTPS
+ * from the VPC CIDR. endpointIds maps a short name (e.g. ecr-api) to the
+ * endpoint ID for SsmParametersConstruct.
+ */
+export class VpcEndpointsConstruct extends Construct {
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly gatewayEndpoints: { [name: string]: ec2.GatewayVpcEndpoint };
+  public readonly interfaceEndpoints: {
+    [name: string]: ec2.InterfaceVpcEndpoint;
+  };
+  public readonly endpointIds: { [name: string]: string };
+
+  constructor(scope: Construct, id: string, props: VpcEndpointsConstructProps) {
+    super(scope, id);
+
+    this.gatewayEndpoints = {};
+    this.interfaceEndpoints = {};
+    this.endpointIds = {};
+
+    // 1. Shared security group, HTTPS from inside the VPC only
+    this.securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc: props.vpc,
+      description: "VPC interface endpoints",
+      allowAllOutbound: false,
+    });
+    this.securityGroup.addIngressRule(
+      ec2.Peer.ipv4(props.vpc.vpcCidrBlock),
+      ec2.Port.tcp(443),
+      "HTTPS from the VPC"
+    );
+
+    // 2. Gateway endpoint (free, added to the subnets' route tables)
+    if (props.s3 ?? true) {
+      const endpoint = new ec2.GatewayVpcEndpoint(this, "S3Endpoint", {
+        vpc: props.vpc,
+        service: ec2.GatewayVpcEndpointAwsService.S3,
+      });
+      this.gatewayEndpoints["s3"] = endpoint;
+      this.endpointIds["s3"] = endpoint.vpcEndpointId;
+    }
+
+    // 3. Interface endpoints, billed per AZ and hour
+    const services = ec2.InterfaceVpcEndpointAwsService;
+    if (props.ecr ?? true) {
+      this.addInterfaceEndpoint(props, "EcrEndpoint", "ecr-api", services.ECR);
+      this.addInterfaceEndpoint(
+        props,
+        "EcrDockerEndpoint",
+        "ecr-dkr",
+        services.ECR_DOCKER
+      );
+    }
+
+    if (props.cloudWatchLogs ?? true) {
+      this.addInterfaceEndpoint(
+        props,
+        "LogsEndpoint",
+        "logs",
+        services.CLOUDWATCH_LOGS
+      );
+    }
+
+    if (props.ecs ?? true) {
+      this.addInterfaceEndpoint(props, "EcsEndpoint", "ecs", services.ECS);
+      this.addInterfaceEndpoint(
+        props,
+        "EcsAgentEndpoint",
+        "ecs-agent",
+        services.ECS_AGENT
+      );
+      this.addInterfaceEndpoint(
+        props,
+        "EcsTelemetryEndpoint",
+        "ecs-telemetry",
+        services.ECS_TELEMETRY
+      );
+    }
+
+    if (props.ssm ?? true) {
+      this.addInterfaceEndpoint(props, "SsmEndpoint", "ssm", services.SSM);
+      this.addInterfaceEndpoint(
+        props,
+        "SsmMessagesEndpoint",
+        "ssmmessages",
+        services.SSM_MESSAGES
+      );
+      this.addInterfaceEndpoint(
+        props,
+        "Ec2MessagesEndpoint",
+        "ec2messages",
+        services.EC2_MESSAGES
+      );
+    }
+
+    if (props.secretsManager ?? true) {
+      this.addInterfaceEndpoint(
+        props,
+        "SecretsManagerEndpoint",
+        "secretsmanager",
+        services.SECRETS_MANAGER
+      );
+    }
+
+    if (props.kms ?? true) {
+      this.addInterfaceEndpoint(props, "KmsEndpoint", "kms", services.KMS);
+    }
+  }
+
+  // Ingress comes from the shared security group rather than per endpoint
+  private addInterfaceEndpoint(
+    props: VpcEndpointsConstructProps,
+    id: string,
+    name: string,
+    service: ec2.InterfaceVpcEndpointAwsService
+  ): void {
+    const endpoint = new ec2.InterfaceVpcEndpoint(this, id, {
+      vpc: props.vpc,
+      service,
+      subnets: props.subnets,
+      securityGroups: [this.securityGroup],
+      open: false,
+      privateDnsEnabled: true,
+    });
+
+    this.interfaceEndpoints[name] = endpoint;
+    this.endpointIds[name] = endpoint.vpcEndpointId;
+  }
+}
@@ -0,0 +1,233 @@
+/** @format */
+
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+import { ArnFormat, Stack, Token } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+// REGIONAL protects the ALB, CLOUDFRONT web ACLs must be created in us-east-1
+export type WafScope = "REGIONAL" | "CLOUDFRONT";
+
+// Requests one IP may send in 5 minutes before it is blocked
+export interface WafRateLimits {
+  general?: number; // Any path (default: 2000)
+  feed?: number; // /feed.xml, readers poll it every few minutes at most (default: 100)
+  api?: number; // /api/ routes (default: 300)
+}
+
+export interface WafOptions {
+  rateLimits?: WafRateLimits;
+  logRetentionDays?: number; // Blocked and counted requests (default: 30)
+}
+
+export interface WafConstructProps extends WafOptions {
+  envName: string; // Names the web ACL, its metrics and log group
+  scope?: WafScope; // Default: REGIONAL
+  resourceArn?: string; // REGIONAL: load balancer to associate with
+  forwardedIp?: boolean; // Rate limit the client in X-Forwarded-For, for an ALB behind CloudFront
+}
+
+/**
+ * AWS WAF web ACL for the public entry point
+ *
+ * Requests are evaluated in priority order:
+ * 1. Amazon IP reputation list (bots, known attackers)
+ * 2. Per-IP rate limits for /feed.xml, /api/ and everything else
+ * 3. Core rule set (OWASP-style common attacks)
+ * 4. Known bad inputs (e.g. Log4j, invalid paths)
+ *
+ * Behind CloudFront the ALB only sees edge addresses, so with forwardedIp
+ * the rate limits count the client address CloudFront puts in
+ * X-Forwarded-For instead. CloudFront appends the viewer address, so the
+ * first one can be set by the client; the limits remain a coarse control.
+ *
+ * Every rule publishes CloudWatch metrics under the web ACL name, so the
+ * MonitoringConstruct can alarm on AWS/WAFV2 BlockedRequests.
+ *
+ * Only blocked and counted requests are logged, to an aws-waf-logs-* log
+ * group, with the authorization and cookie headers redacted.
+ */
+export class WafConstruct extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+  public readonly webAclArn: string;
+  public readonly webAclName: string;
+  public readonly logGroup: logs.LogGroup;
+  private readonly forwardedIp: boolean;
+
+  constructor(scope: Construct, id: string, props: WafConstructProps) {
+    super(scope, id);
+
+    const wafScope = props.scope ?? "REGIONAL";
+    const region = Stack.of(this).region;
+    if (
+      wafScope === "CLOUDFRONT" &&
+      !Token.isUnresolved(region) &&
+      region !== "us-east-1"
+    ) {
+      throw new Error(
+        `CLOUDFRONT web ACLs must be created in us-east-1 (${region})`
+      );
+    }
+
+    if (wafScope === "CLOUDFRONT" && props.resourceArn) {
+      throw new Error(
+        "CLOUDFRONT web ACLs are attached through the distribution, not resourceArn"
+      );
+    }
+
+    const rateLimits = props.rateLimits || {};
+    this.forwardedIp = props.forwardedIp ?? false;
+    this.webAclName = `web-acl-${props.envName}`;
+
+    // 1. Web ACL, requests that match no rule are allowed
+    this.webAcl = new wafv2.CfnWebACL(this, "WebAcl", {
+      name: this.webAclName,
+      scope: wafScope,
+      defaultAction: { allow: {} },
+      visibilityConfig: this.visibilityConfig(this.webAclName),
+      rules: [
+        this.managedRule("AWSManagedRulesAmazonIpReputationList", 0),
+        this.rateLimitRule(
+          "RateLimitFeed",
+          1,
+          rateLimits.feed ?? 100,
+          this.pathMatch("/feed.xml", "EXACTLY")
+        ),
+        this.rateLimitRule(
+          "RateLimitApi",
+          2,
+          rateLimits.api ?? 300,
+          this.pathMatch("/api/", "STARTS_WITH")
+        ),
+        this.rateLimitRule("RateLimitGeneral", 3, rateLimits.general ?? 2000),
+        this.managedRule("AWSManagedRulesCommonRuleSet", 4),
+        this.managedRule("AWSManagedRulesKnownBadInputsRuleSet", 5),
+      ],
+    });
+    this.webAclArn = this.webAcl.attrArn;
+
+    // 2. Attach to the load balancer
+    if (props.resourceArn) {
+      new wafv2.CfnWebACLAssociation(this, "Association", {
+        resourceArn: props.resourceArn,
+        webAclArn: this.webAclArn,
+      });
+    }
+
+    // 3. Logging, WAF only delivers to log groups named aws-waf-logs-*
+    const retentionDays = props.logRetentionDays ?? 30;
+    if (!Object.values(logs.RetentionDays).includes(retentionDays)) {
+      throw new Error(
+        `WAF log retention of ${retentionDays} days is not supported by CloudWatch Logs`
+      );
+    }
+
+    this.logGroup = new logs.LogGroup(this, "LogGroup", {
+      logGroupName: `aws-waf-logs-${props.envName}`,
+      retention: retentionDays as logs.RetentionDays,
+    });
+
+    new wafv2.CfnLoggingConfiguration(this, "LoggingConfiguration", {
+      resourceArn: this.webAclArn,
+      // The log group ARN without the trailing :* from logGroupArn
+      logDestinationConfigs: [
+        Stack.of(this).formatArn({
+          service: "logs",
+          resource: "log-group",
+          resourceName: this.logGroup.logGroupName,
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ],
+      redactedFields: [
+        { singleHeader: { Name: "authorization" } },
+        { singleHeader: { Name: "cookie" } },
+      ],
+      // Allowed requests are already in the ALB metrics
+      loggingFilter: {
+        DefaultBehavior: "DROP",
+        Filters: [
+          {
+            Behavior: "KEEP",
+            Requirement: "MEETS_ANY",
+            Conditions: [
+              { ActionCondition: { Action: "BLOCK" } },
+              { ActionCondition: { Action: "COUNT" } },
+            ],
+          },
+        ],
+      },
+    });
+  }
+
+  private managedRule(
+    name: string,
+    priority: number
+  ): wafv2.CfnWebACL.RuleProperty {
+    return {
+      name,
+      priority,
+      statement: {
+        managedRuleGroupStatement: { vendorName: "AWS", name },
+      },
+      overrideAction: { none: {} }, // Keep the group's own block actions
+      visibilityConfig: this.visibilityConfig(`${this.webAclName}-${name}`),
+    };
+  }
+
+  private rateLimitRule(
+    name: string,
+    priority: number,
+    limit: number,
+    scopeDownStatement?: wafv2.CfnWebACL.StatementProperty
+  ): wafv2.CfnWebACL.RuleProperty {
+    if (limit < 10 || limit > 2000000000) {
+      throw new Error(
+        `${name} limit must be between 10 and 2000000000 requests (${limit})`
+      );
+    }
+
+    return {
+      name,
+      priority,
+      statement: {
+        rateBasedStatement: {
+          limit,
+          aggregateKeyType: this.forwardedIp ? "FORWARDED_IP" : "IP",
+          // First address in the header, requests without one match the rule
+          forwardedIpConfig: this.forwardedIp
+            ? { headerName: "X-Forwarded-For", fallbackBehavior: "MATCH" }
+            : undefined,
+          evaluationWindowSec: 300,
+          scopeDownStatement,
+        },
+      },
+      action: { block: {} },
+      visibilityConfig: this.visibilityConfig(`${this.webAclName}-${name}`),
+    };
+  }
+
+  // Case-insensitive match on the request path
+  private pathMatch(
+    path: string,
+    positionalConstraint: "EXACTLY" | "STARTS_WITH"
+  ): wafv2.CfnWebACL.StatementProperty {
+    return {
+      byteMatchStatement: {
+        searchString: path,
+        fieldToMatch: { uriPath: {} },
+        positionalConstraint,
+        textTransformations: [{ priority: 0, type: "LOWERCASE" }],
+      },
+    };
+  }
+
+  private visibilityConfig(
+    metricName: string
+  ): wafv2.CfnWebACL.VisibilityConfigProperty {
+    return {
+      metricName,
+      cloudWatchMetricsEnabled: true,
+      sampledRequestsEnabled: true,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/** @format */
+
+// Article images and diagrams served through CloudFront instead of being
+// baked into the container image
+
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { Duration, RemovalPolicy, Stack, Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+// Served by CloudFront at the same path, e.g. /assets/articles/<slug>/diagram.png
+export const ASSET_KEY_PREFIX = "assets/";
+
+export interface AssetBucketConstructProps {
+  envName: string; // Environment name for tagging
+  pipelineAccount?: string; // CI/CD account allowed to publish assets
+  noncurrentVersionRetentionDays?: number; // Overwritten or deleted assets (default: 30)
+}
+
+export class AssetBucketConstruct extends Construct {
+  public readonly bucket: s3.Bucket;
+
+  constructor(scope: Construct, id: string, props: AssetBucketConstructProps) {
+    super(scope, id);
+
+    const noncurrentDays = props.noncurrentVersionRetentionDays ?? 30;
+    if (noncurrentDays < 1) {
+      throw new Error(
+        `noncurrentVersionRetentionDays must be at least 1 (${noncurrentDays})`
+      );
+    }
+
+    this.bucket = new s3.Bucket(this, "Bucket", {
+      // SSE-S3 rather than KMS, CloudFront can read it without a key policy
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+
+      // Versions let a bad publish be rolled back
+      versioned: true,
+
+      // RETAIN prevents accidental data loss when stack is deleted
+      removalPolicy: RemovalPolicy.RETAIN,
+
+      // Old versions and failed uploads are the only things that expire
+      lifecycleRules: [
+        {
+          id: "ExpireNoncurrentVersions",
+          noncurrentVersionExpiration: Duration.days(noncurrentDays),
+          expiredObjectDeleteMarker: true,
+        },
+        {
+          id: "AbortIncompleteUploads",
+          abortIncompleteMultipartUploadAfter: Duration.days(7),
+        },
+      ],
+    });
+
+    // Any distribution in this account may read the assets. A condition on
+    // one distribution would make StorageStack depend on ComputeStack.
+    this.bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        sid: "AllowCloudFrontOriginAccessControl",
+        principals: [new iam.ServicePrincipal("cloudfront.amazonaws.com")],
+        actions: ["s3:GetObject"],
+        resources: [this.bucket.arnForObjects(`${ASSET_KEY_PREFIX}*`)],
+        conditions: {
+          StringEquals: { "AWS:SourceAccount": Stack.of(this).account },
+        },
+      })
+    );
+
+    // Publish access for the pipeline, list and delete for `aws s3 sync --delete`
+    if (props.pipelineAccount) {
+      this.bucket.grantReadWrite(
+        new iam.AccountPrincipal(props.pipelineAccount),
+        `${ASSET_KEY_PREFIX}*`
+      );
+    }
+
+    // Tag bucket
+    Tags.of(this.bucket).add("Environment", props.envName);
+    Tags.of(this.bucket).add("ManagedBy", "CDK");
+  }
+}
@@ -4,14 +4,29 @@
 
 import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as iam from "aws-cdk-lib/aws-iam";
-import { RemovalPolicy } from "aws-cdk-lib";
+import { RemovalPolicy, Stack, Token } from "aws-cdk-lib";
 import { Construct } from "constructs";
+import { EcrLifecyclePolicy, ecrLifecycleRules } from "./ecr-lifecycle-policy";
+
+// Copies of every pushed image, so a regional ECR outage doesn't block redeploys
+export interface EcrReplicationOptions {
+  recoveryRegion: string; // Same account, where the recovery ComputeStack pulls from
+  replicateToPipelineAccount?: boolean; // Also copy to pipelineAccount in this region
+}
+
+// How pushed images are scanned for vulnerabilities
+// - BASIC: CVE scan on push, free
+// - ENHANCED: Amazon Inspector scans on push and rescans as new CVEs are
+//   published, billed per image
+export type EcrScanType = "BASIC" | "ENHANCED";
 
 export interface EcrConstructProps {
   repositoryName: string; // Unique name for ECR repository
   imageTagMutability?: ecr.TagMutability; // IMMUTABLE prevents tag overwrites (security)
-  lifecycleRules?: number; // Max images to keep (cost optimization)
+  lifecyclePolicy?: EcrLifecyclePolicy; // Images kept per tag kind (cost optimization)
   pipelineAccount?: string; // CI/CD account for cross-account access
+  replication?: EcrReplicationOptions; // Disabled when omitted
+  scanType?: EcrScanType; // Default: BASIC
 }
 
 export class EcrConstruct extends Construct {
@@ -31,17 +46,19 @@ export class EcrConstruct extends Construct {
       removalPolicy: RemovalPolicy.RETAIN,
 
       // Automatically detects vulnerabilities before deployment
+      // (ignored once the registry uses enhanced scanning)
       imageScanOnPush: true,
     });
 
-    // Prevents unbounded storage costs from old images
-    // Default 10 images balances history retention with cost
-    this.repository.addLifecycleRule({
-      maxImageCount: props.lifecycleRules || 10,
-      description: "Keep only recent images",
-      rulePriority: 1,
-      tagStatus: ecr.TagStatus.ANY,
-    });
+    if (props.scanType === "ENHANCED") {
+      this.addEnhancedScanning(props.repositoryName);
+    }
+
+    // Prevents unbounded storage costs from old images without expiring
+    // releases that are still deployed or could be rolled back to
+    for (const rule of ecrLifecycleRules(props.lifecyclePolicy)) {
+      this.repository.addLifecycleRule(rule);
+    }
 
     // Grant cross-account access only when needed (least privilege)
     // Allows CI/CD pipeline to push images and deployments to pull them
@@ -50,5 +67,76 @@ export class EcrConstruct extends Construct {
         new iam.AccountPrincipal(props.pipelineAccount)
       );
     }
+
+    if (props.replication) {
+      this.addReplication(
+        props.repositoryName,
+        props.replication,
+        props.pipelineAccount
+      );
+    }
+  }
+
+  // Like replication, the scan type is a registry setting that only one
+  // repository per account may set. Inspector must be enabled for ECR in
+  // the account, findings then arrive as "Inspector2 Scan" events.
+  private addEnhancedScanning(repositoryName: string): void {
+    new ecr.CfnRegistryScanningConfiguration(this, "ScanningConfiguration", {
+      scanType: "ENHANCED",
+      rules: [
+        {
+          scanFrequency: "CONTINUOUS_SCAN",
+          repositoryFilters: [
+            { filter: repositoryName, filterType: "WILDCARD" },
+          ],
+        },
+      ],
+    });
+  }
+
+  // Replication is configured per registry (account and region), so only
+  // one repository per account may set it; each environment has its own
+  // account. Images pushed before the rule exists are not copied.
+  private addReplication(
+    repositoryName: string,
+    replication: EcrReplicationOptions,
+    pipelineAccount?: string
+  ): void {
+    const { account, region } = Stack.of(this);
+
+    if (!Token.isUnresolved(region) && replication.recoveryRegion === region) {
+      throw new Error(
+        `ECR recovery region must differ from the repository region (${region})`
+      );
+    }
+
+    if (replication.replicateToPipelineAccount && !pipelineAccount) {
+      throw new Error(
+        "pipelineAccount is required to replicate images to the pipeline account"
+      );
+    }
+
+    const destinations: ecr.CfnReplicationConfiguration.ReplicationDestinationProperty[] =
+      [{ region: replication.recoveryRegion, registryId: account }];
+
+    // The pipeline registry policy must allow ecr:ReplicateImage and
+    // ecr:CreateRepository from this account
+    if (replication.replicateToPipelineAccount && pipelineAccount) {
+      destinations.push({ region, registryId: pipelineAccount });
+    }
+
+    // Replicas are created on first push, named like the source repository
+    new ecr.CfnReplicationConfiguration(this, "Replication", {
+      replicationConfiguration: {
+        rules: [
+          {
+            destinations,
+            repositoryFilters: [
+              { filter: repositoryName, filterType: "PREFIX_MATCH" },
+            ],
+          },
+        ],
+      },
+    });
   }
 }
@@ -0,0 +1,96 @@
+/** @format */
+
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import { Duration } from "aws-cdk-lib";
+
+// Which images a repository keeps, by tag. Lifecycle rules run in priority
+// order and an image matched by one rule is never expired by a later rule,
+// so protected tags come first and the catch-all rule last.
+export interface EcrLifecyclePolicy {
+  protectedTags?: string[]; // Never expired, e.g. the currently deployed release
+  releaseTagPrefixes?: string[]; // Default: ["v", "sha-"]
+  maxReleaseImages?: number; // Kept per release prefix (default: 10)
+  pullRequestTagPrefixes?: string[]; // Default: ["pr-"]
+  pullRequestImageAgeDays?: number; // Default: 3
+  untaggedImageAgeDays?: number; // Build cache and replaced layers (default: 7)
+  maxOtherImages?: number; // Any other tag, e.g. latest (default: 10)
+}
+
+// ECR tag characters, no wildcards: a protected tag matches one image
+const TAG_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+// A rule matches images carrying tags for all of its prefixes, so each
+// prefix or protected tag gets a rule of its own
+export function ecrLifecycleRules(
+  policy: EcrLifecyclePolicy = {}
+): ecr.LifecycleRule[] {
+  const releaseTagPrefixes = policy.releaseTagPrefixes ?? ["v", "sha-"];
+  const pullRequestTagPrefixes = policy.pullRequestTagPrefixes ?? ["pr-"];
+  const maxReleaseImages = policy.maxReleaseImages ?? 10;
+  const maxOtherImages = policy.maxOtherImages ?? 10;
+  const pullRequestImageAgeDays = policy.pullRequestImageAgeDays ?? 3;
+  const untaggedImageAgeDays = policy.untaggedImageAgeDays ?? 7;
+
+  for (const [name, value] of Object.entries({
+    maxReleaseImages,
+    maxOtherImages,
+    pullRequestImageAgeDays,
+    untaggedImageAgeDays,
+  })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${name} must be a positive integer (${value})`);
+    }
+  }
+
+  for (const tag of policy.protectedTags || []) {
+    if (!TAG_PATTERN.test(tag)) {
+      throw new Error(`Protected tag ${tag} is not a valid ECR image tag`);
+    }
+  }
+
+  const overlapping = releaseTagPrefixes.filter((prefix) =>
+    pullRequestTagPrefixes.some(
+      (other) => prefix.startsWith(other) || other.startsWith(prefix)
+    )
+  );
+  if (overlapping.length) {
+    throw new Error(
+      `Release tag prefixes overlap pull request prefixes (${overlapping.join(
+        ", "
+      )})`
+    );
+  }
+
+  const rules: Omit<ecr.LifecycleRule, "rulePriority">[] = [
+    ...(policy.protectedTags || []).map((tag) => ({
+      description: `Never expire ${tag}`,
+      tagStatus: ecr.TagStatus.TAGGED,
+      tagPatternList: [tag],
+      maxImageCount: 1, // Tags are immutable, only one image carries it
+    })),
+    ...pullRequestTagPrefixes.map((prefix) => ({
+      description: `Expire ${prefix}* images after ${pullRequestImageAgeDays} days`,
+      tagStatus: ecr.TagStatus.TAGGED,
+      tagPrefixList: [prefix],
+      maxImageAge: Duration.days(pullRequestImageAgeDays),
+    })),
+    ...releaseTagPrefixes.map((prefix) => ({
+      description: `Keep the last ${maxReleaseImages} ${prefix}* images`,
+      tagStatus: ecr.TagStatus.TAGGED,
+      tagPrefixList: [prefix],
+      maxImageCount: maxReleaseImages,
+    })),
+    {
+      description: `Expire untagged images after ${untaggedImageAgeDays} days`,
+      tagStatus: ecr.TagStatus.UNTAGGED,
+      maxImageAge: Duration.days(untaggedImageAgeDays),
+    },
+    {
+      description: `Keep the last ${maxOtherImages} other images`,
+      tagStatus: ecr.TagStatus.ANY,
+      maxImageCount: maxOtherImages,
+    },
+  ];
+
+  return rules.map((rule, index) => ({ ...rule, rulePriority: index + 1 }));
+}
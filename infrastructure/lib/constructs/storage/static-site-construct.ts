@@ -0,0 +1,124 @@
+/** @format */
+
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import { Duration, Tags } from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+// Viewer-request handler: answers /api/health without touching S3 and maps
+// Next.js export URLs (/about, /articles/x) to the .html files it writes
+const VIEWER_REQUEST_FUNCTION = `
+function handler(event) {
+  var request = event.request;
+  var uri = request.uri;
+
+  if (uri === "/api/health") {
+    return {
+      statusCode: 200,
+      statusDescription: "OK",
+      headers: {
+        "content-type": { value: "application/json" },
+        "cache-control": { value: "no-store" },
+      },
+      body: {
+        encoding: "text",
+        data: JSON.stringify({
+          status: "healthy",
+          timestamp: new Date().toISOString(),
+          environment: "static",
+        }),
+      },
+    };
+  }
+
+  if (uri.endsWith("/")) {
+    request.uri = uri + "index.html";
+  } else if (uri.lastIndexOf(".") < uri.lastIndexOf("/")) {
+    request.uri = uri + ".html";
+  }
+
+  return request;
+}
+`;
+
+export interface StaticSiteConstructProps {
+  envName: string; // Names the function and tags the bucket and distribution
+  priceClass?: cloudfront.PriceClass; // Default: PRICE_CLASS_100 (North America, Europe)
+}
+
+/**
+ * Next.js static export served from a private S3 bucket through CloudFront
+ *
+ * The bucket blocks all public access, CloudFront reads it with Origin
+ * Access Control. A CloudFront Function rewrites extensionless page URLs
+ * to the exported .html files and answers /api/health, so the site has no
+ * servers at all. feed.xml is an ordinary prebuilt object.
+ *
+ * Objects are cached until they are invalidated, as with the container
+ * distribution (see scripts/deploy-static-site.sh). Missing objects are
+ * served as the exported 404 page; without s3:ListBucket S3 reports them
+ * as 403.
+ */
+export class StaticSiteConstruct extends Construct {
+  public readonly bucket: s3.Bucket;
+  public readonly distribution: cloudfront.Distribution;
+  public readonly viewerRequestFunction: cloudfront.Function;
+
+  constructor(scope: Construct, id: string, props: StaticSiteConstructProps) {
+    super(scope, id);
+
+    // 1. Private bucket, only CloudFront can read it
+    this.bucket = new s3.Bucket(this, "Bucket", {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+    });
+
+    // 2. URL rewrites and health check at the edge
+    this.viewerRequestFunction = new cloudfront.Function(
+      this,
+      "ViewerRequestFunction",
+      {
+        functionName: `${props.envName}-static-site-viewer-request`,
+        comment: "Static export URL rewrites and /api/health",
+        code: cloudfront.FunctionCode.fromInline(VIEWER_REQUEST_FUNCTION),
+        runtime: cloudfront.FunctionRuntime.JS_2_0,
+      }
+    );
+
+    // 3. Distribution, S3 reached with Origin Access Control
+    this.distribution = new cloudfront.Distribution(this, "Distribution", {
+      comment: `Next.js static export (${props.envName})`,
+      defaultBehavior: {
+        origin: origins.S3BucketOrigin.withOriginAccessControl(this.bucket),
+        cachePolicy: cloudfront.CachePolicy.CACHING_OPTIMIZED,
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
+        compress: true,
+        functionAssociations: [
+          {
+            function: this.viewerRequestFunction,
+            eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+          },
+        ],
+      },
+      defaultRootObject: "index.html",
+      errorResponses: [403, 404].map((httpStatus) => ({
+        httpStatus,
+        responseHttpStatus: 404,
+        responsePagePath: "/404.html",
+        ttl: Duration.minutes(5),
+      })),
+      priceClass: props.priceClass ?? cloudfront.PriceClass.PRICE_CLASS_100,
+      httpVersion: cloudfront.HttpVersion.HTTP2_AND_3,
+      minimumProtocolVersion: cloudfront.SecurityPolicyProtocol.TLS_V1_2_2021,
+    });
+
+    // Tag bucket and distribution
+    for (const resource of [this.bucket, this.distribution]) {
+      Tags.of(resource).add("Environment", props.envName);
+      Tags.of(resource).add("ManagedBy", "CDK");
+    }
+  }
+}
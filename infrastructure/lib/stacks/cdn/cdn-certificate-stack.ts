@@ -0,0 +1,56 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import { Construct } from "constructs";
+
+export interface CdnCertificateStackProps extends cdk.StackProps {
+  envName: string;
+  domainName: string; // Site domain served by the CloudFront distribution
+  hostedZoneName: string; // Route 53 public hosted zone
+  hostedZoneId?: string; // Avoids a context lookup when provided
+}
+
+/**
+ * CDN Certificate Stack
+ *
+ * CloudFront only accepts ACM certificates issued in us-east-1, so the site
+ * domain's certificate for the distribution lives in its own stack in that
+ * region. ComputeStack references it across regions (crossRegionReferences),
+ * which requires the account to be CDK-bootstrapped in us-east-1 as well.
+ *
+ * The ALB keeps its own regional certificate for the origin hostname.
+ */
+export class CdnCertificateStack extends cdk.Stack {
+  public readonly certificate: acm.ICertificate;
+
+  constructor(scope: Construct, id: string, props: CdnCertificateStackProps) {
+    super(scope, id, props);
+
+    if (!cdk.Token.isUnresolved(this.region) && this.region !== "us-east-1") {
+      throw new Error(
+        `CloudFront certificates must be issued in us-east-1 (${this.region})`
+      );
+    }
+
+    // Route 53 is global, the zone is the same as in the primary region
+    const hostedZone = props.hostedZoneId
+      ? route53.HostedZone.fromHostedZoneAttributes(this, "HostedZone", {
+          hostedZoneId: props.hostedZoneId,
+          zoneName: props.hostedZoneName,
+        })
+      : route53.HostedZone.fromLookup(this, "HostedZone", {
+          domainName: props.hostedZoneName,
+        });
+
+    this.certificate = new acm.Certificate(this, "Certificate", {
+      domainName: props.domainName,
+      validation: acm.CertificateValidation.fromDns(hostedZone),
+    });
+
+    // Tags
+    cdk.Tags.of(this).add("Stack", "CdnCertificate");
+    cdk.Tags.of(this).add("Environment", props.envName);
+  }
+}
@@ -1,62 +1,230 @@
 /** @format */
 
 import * as cdk from "aws-cdk-lib";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53Targets from "aws-cdk-lib/aws-route53-targets";
 import * as ssm from "aws-cdk-lib/aws-ssm";
 import { Construct } from "constructs";
-import { EcsConstruct } from "../../constructs/compute/ecs-construct";
-import { ContainerImageConstruct } from "../../constructs/compute/container-image-construct";
+import {
+  ContainerSecretReference,
+  DeploymentStrategy,
+  EcsAmiType,
+  EcsConstruct,
+  EcsLaunchMode,
+  ScaleToZeroSchedule,
+  ServiceAutoScalingOptions,
+  SpotCapacityOptions,
+} from "../../constructs/compute/ecs-construct";
+import { CloudFrontConstruct } from "../../constructs/networking/cloudfront-construct";
+import { BlueGreenDeploymentConstruct } from "../../constructs/compute/blue-green-deployment-construct";
+import {
+  ContainerImageConstruct,
+  ImageSource,
+} from "../../constructs/compute/container-image-construct";
+import { LoadBalancerConstruct } from "../../constructs/networking/load-balancer-construct";
+import { SecurityGroupsConstruct } from "../../constructs/networking/security-groups-construct";
+import {
+  WafConstruct,
+  WafOptions,
+} from "../../constructs/networking/waf-construct";
+import { ecsAlarmNames } from "../../constructs/monitoring/monitoring-construct";
 
 export interface ComputeStackProps extends cdk.StackProps {
   envName: string;
   vpc: ec2.IVpc;
-  repository: ecr.Repository;
+  repository?: ecr.IRepository; // Default: replicated app-repo-{envName} in this region
   instanceType?: ec2.InstanceType;
+  computeSubnetType?: ec2.SubnetType; // Default: PUBLIC, see NetworkingStack
+  amiType?: EcsAmiType; // EC2 capacity image (default: AL2)
+  rootVolumeSizeGiB?: number; // Encrypted gp3 volume size
   minCapacity?: number;
   maxCapacity?: number;
   desiredCapacity?: number;
   memoryReservationMiB?: number; // Soft memory limit
   memoryLimitMiB?: number; // Hard memory limit (optional)
   cpu?: number; // CPU units
+  enableLoadBalancer?: boolean; // Route traffic through an ALB
+  directAccessCidrs?: string[]; // Reach tasks on the container port without a load balancer
+  healthCheckPath?: string; // ALB target group health check path
+  domainName?: string; // Site domain served over HTTPS (requires hosted zone)
+  hostedZoneName?: string; // Route 53 public hosted zone
+  hostedZoneId?: string; // Avoids a context lookup when provided
+  waf?: WafOptions; // Web ACL on the ALB (requires the load balancer)
+  enableCdn?: boolean; // CloudFront caching in front of the ALB (requires the load balancer)
+  cdnCertificate?: acm.ICertificate; // us-east-1 certificate for domainName, see CdnCertificateStack
+  assetBucketName?: string; // Served at /assets/* when enableCdn is set
+  autoScaling?: ServiceAutoScalingOptions; // Service task count target tracking
+  enableCapacityProvider?: boolean; // ASG managed scaling from task demand
+  spotCapacity?: SpotCapacityOptions; // Mixed on-demand/Spot instances
+  schedule?: ScaleToZeroSchedule; // Tasks and instances off outside working hours
+  launchMode?: EcsLaunchMode; // EC2 (default), FARGATE, FARGATE_SPOT or MIXED
+  deploymentStrategy?: DeploymentStrategy; // ROLLING (default) or BLUE_GREEN
+  enableDeploymentAlarms?: boolean; // Roll back on monitoring CPU/memory/5xx alarms
+  blueGreenDeploymentConfig?: codedeploy.IEcsDeploymentConfig; // Traffic shifting
+  imageSource?: ImageSource; // ENV (default) or SSM_PARAMETER release tag
+  allowPlaceholderImage?: boolean; // Default: true outside production
+  pinImageDigest?: boolean; // Validate the image in ECR and deploy its digest
+  blockCriticalFindings?: boolean; // Refuse images whose latest scan has critical findings
+  containerEnvironment?: { [key: string]: string }; // Plain app env vars
+  containerSecrets?: { [key: string]: ContainerSecretReference }; // Secret env vars
+  enableExec?: boolean; // ECS Exec and Session Manager access
 }
 
 /**
  * Compute Stack
  *
  * Creates compute resources including:
- * - ECS cluster with EC2 capacity
+ * - Security groups for the ALB, instances and tasks
+ * - ECS cluster with EC2 or Fargate capacity
  * - ECS service and task definition
  * - Container image resolution
- * - Auto-scaling configuration
+ * - Auto-scaling configuration (service target tracking, capacity provider)
+ * - Scale-to-zero schedule outside working hours (optional)
+ * - Application Load Balancer (optional)
+ * - ACM certificate and Route 53 alias record (optional)
+ * - WAF web ACL with managed rules and rate limiting (optional)
+ * - CloudFront distribution with per-route caching, serving the domain and
+ *   the only client of the ALB (optional)
+ * - CodeDeploy blue/green deployments (optional)
  * - SSM parameters for resource discovery
  *
  * This stack depends on:
  * - NetworkingStack (for VPC)
- * - StorageStack (for ECR repository)
+ * - StorageStack (for ECR repository), except in a recovery region where
+ *   the repository is an ECR replica
  */
 export class ComputeStack extends cdk.Stack {
   public readonly cluster: ecs.ICluster;
   public readonly service: ecs.IService;
+  public readonly loadBalancer?: elbv2.ApplicationLoadBalancer;
+  public readonly webAclName?: string; // waf only
+  public readonly distribution?: cloudfront.Distribution; // enableCdn only
 
   constructor(scope: Construct, id: string, props: ComputeStackProps) {
     super(scope, id, props);
 
+    // A custom domain and blue/green deployments both need the load balancer,
+    // an explicit enableLoadBalancer: false is a cost choice, not overridden
+    const isBlueGreen = props.deploymentStrategy === "BLUE_GREEN";
+    if (
+      props.enableLoadBalancer === false &&
+      (props.domainName || isBlueGreen)
+    ) {
+      throw new Error(
+        `${props.envName} disables the load balancer, but ` +
+          (props.domainName
+            ? `domainName ${props.domainName} requires one`
+            : "BLUE_GREEN deployments require one")
+      );
+    }
+    const enableLoadBalancer =
+      props.enableLoadBalancer || !!props.domainName || isBlueGreen;
+    // The web ACL and the CDN origin are the load balancer, never ignored
+    if ((props.waf || props.enableCdn) && !enableLoadBalancer) {
+      throw new Error(
+        `${props.envName} has no load balancer, but ` +
+          (props.waf ? "waf requires one" : "enableCdn requires one as origin")
+      );
+    }
+    if (enableLoadBalancer && props.directAccessCidrs?.length) {
+      throw new Error(
+        `${props.envName} serves through the load balancer, directAccessCidrs only applies without one`
+      );
+    }
+    // Alarms belong to the monitoring stack (deployed after this one), so they
+    // are referenced by name rather than by construct
+    const alarmNames = ecsAlarmNames(props.envName);
+    const deploymentAlarmNames = props.enableDeploymentAlarms
+      ? [alarmNames.cpu, alarmNames.memory].concat(
+          enableLoadBalancer ? [alarmNames.http5xx] : []
+        )
+      : undefined;
+
+    const siteUrl = props.domainName
+      ? `https://${props.domainName}`
+      : undefined;
+
+    // Behind the CDN the site domain points at the distribution, which
+    // reaches the ALB through a hostname of its own
+    const cdnOriginDomainName =
+      props.enableCdn && props.domainName
+        ? `origin.${props.domainName}`
+        : undefined;
+    if (cdnOriginDomainName && !props.cdnCertificate) {
+      throw new Error(
+        `cdnCertificate is required to serve ${props.domainName} from CloudFront`
+      );
+    }
+
     // Resolve container image (ECR or public registry)
     const containerImageConstruct = new ContainerImageConstruct(
       this,
       "ContainerImage",
       {
-        repository: props.repository,
+        // Recovery deployments pull the replica ECR created in this region
+        repository:
+          props.repository ||
+          ecr.Repository.fromRepositoryName(
+            this,
+            "ReplicatedRepository",
+            `app-repo-${props.envName}`
+          ),
+        envName: props.envName,
+        imageSource: props.imageSource,
+        // Never silently roll production back to the public placeholder
+        allowPlaceholder:
+          props.allowPlaceholderImage ?? props.envName !== "production",
+        pinDigest: props.pinImageDigest,
+        blockCriticalFindings: props.blockCriticalFindings,
       }
     );
 
-    // Create ECS Cluster with EC2 capacity
+    // Only the ALB listeners are reachable from the internet. Behind the CDN
+    // only CloudFront's origin-facing servers reach them, on the origin port
+    // alone: the prefix list counts as 55 of the group's 60 rules.
+    const listenerPorts = !enableLoadBalancer
+      ? []
+      : props.enableCdn
+      ? [props.domainName ? 443 : 80]
+      : props.domainName
+      ? [80, 443]
+      : [80];
+    const securityGroups = new SecurityGroupsConstruct(this, "SecurityGroups", {
+      vpc: props.vpc,
+      envName: props.envName,
+      listenerPorts,
+      // Without the ALB, Fargate tasks in public subnets are reached on their
+      // own IP, from the allow-list only
+      containerPortPeers: props.directAccessCidrs?.map((cidr) =>
+        ec2.Peer.ipv4(cidr)
+      ),
+      listenerPeer: props.enableCdn
+        ? ec2.Peer.prefixList(
+            ec2.PrefixList.fromLookup(this, "CloudFrontOriginFacing", {
+              prefixListName: "com.amazonaws.global.cloudfront.origin-facing",
+            }).prefixListId
+          )
+        : undefined,
+      containerPort: 3000,
+    });
+
+    // Create ECS Cluster with EC2 or Fargate capacity
     const ecsConstruct = new EcsConstruct(this, "Ecs", {
       vpc: props.vpc,
       envName: props.envName,
-      instanceType: props.instanceType || new ec2.InstanceType("t3.micro"), // Changed from t3.nano (1GB RAM)
+      instanceType: props.instanceType, // Default: t3.micro (t4g.micro on ARM64)
+      subnetType: props.computeSubnetType,
+      instanceSecurityGroup: securityGroups.instanceSecurityGroup,
+      taskSecurityGroup: securityGroups.taskSecurityGroup,
+      amiType: props.amiType,
+      rootVolumeSizeGiB: props.rootVolumeSizeGiB,
       minCapacity: props.minCapacity ?? 1,
       maxCapacity: props.maxCapacity ?? 1,
       desiredCapacity: props.desiredCapacity ?? 1,
@@ -66,11 +234,210 @@ export class ComputeStack extends cdk.Stack {
       memoryReservationMiB: props.memoryReservationMiB ?? 384, // Reduced from 512 to leave room for ECS agent
       memoryLimitMiB: props.memoryLimitMiB, // Hard limit (optional)
       cpu: props.cpu,
+      // Grace period is only valid for services behind a load balancer
+      healthCheckGracePeriod: enableLoadBalancer
+        ? cdk.Duration.seconds(60)
+        : undefined,
+      // NEXT_PUBLIC_SITE_URL is used by feed.xml to build absolute links
+      environment:
+        siteUrl || props.containerEnvironment
+          ? {
+              ...(siteUrl ? { NEXT_PUBLIC_SITE_URL: siteUrl } : {}),
+              ...props.containerEnvironment,
+            }
+          : undefined,
+      secrets: props.containerSecrets,
+      // The placeholder nginx image has no node to run the health check
+      containerHealthCheck: containerImageConstruct.isEcrImage
+        ? { path: props.healthCheckPath }
+        : undefined,
+      stopTimeout: cdk.Duration.seconds(30),
+      enableExec: props.enableExec,
+      autoScaling: props.autoScaling,
+      enableCapacityProvider: props.enableCapacityProvider,
+      spotCapacity: props.spotCapacity,
+      schedule: props.schedule,
+      launchMode: props.launchMode,
+      deploymentStrategy: props.deploymentStrategy,
+      deploymentAlarmNames,
     });
 
     this.cluster = ecsConstruct.cluster;
     this.service = ecsConstruct.service;
 
+    // Route traffic to the service's dynamic host ports (optional)
+    if (enableLoadBalancer) {
+      const hostedZone = props.domainName
+        ? this.resolveHostedZone(props)
+        : undefined;
+
+      const loadBalancerConstruct = new LoadBalancerConstruct(
+        this,
+        "LoadBalancer",
+        {
+          vpc: props.vpc,
+          envName: props.envName,
+          service: ecsConstruct.service,
+          securityGroup: securityGroups.albSecurityGroup,
+          containerPort: 3000,
+          healthCheckPath: props.healthCheckPath,
+          domainName: props.domainName,
+          hostedZone,
+          originDomainName: cdnOriginDomainName,
+          openListeners: !props.enableCdn,
+          enableBlueGreen: isBlueGreen,
+        }
+      );
+
+      this.loadBalancer = loadBalancerConstruct.loadBalancer;
+
+      // Managed rule groups and per-IP rate limits in front of the ALB
+      if (props.waf) {
+        const waf = new WafConstruct(this, "Waf", {
+          envName: props.envName,
+          resourceArn: this.loadBalancer.loadBalancerArn,
+          forwardedIp: props.enableCdn,
+          ...props.waf,
+        });
+        this.webAclName = waf.webAclName;
+
+        new cdk.CfnOutput(this, "WebAclArn", {
+          value: waf.webAclArn,
+          description: "WAF Web ACL ARN",
+          exportName: `${props.envName}-web-acl-arn`,
+        });
+
+        new cdk.CfnOutput(this, "WafLogGroup", {
+          value: waf.logGroup.logGroupName,
+          description: "WAF blocked and counted requests",
+        });
+      }
+
+      // CodeDeploy shifts traffic between the blue and green target groups
+      if (isBlueGreen && loadBalancerConstruct.greenTargetGroup) {
+        cdk.Annotations.of(this).addWarningV2(
+          "@app/compute:blueGreenReleases",
+          "cdk deploy can't update the task definition of a BLUE_GREEN service " +
+            "and the deploy workflow starts no CodeDeploy deployments, " +
+            "see deploymentStrategy in config/environments.ts"
+        );
+
+        const blueGreen = new BlueGreenDeploymentConstruct(
+          this,
+          "BlueGreenDeployment",
+          {
+            envName: props.envName,
+            service: ecsConstruct.service,
+            blueTargetGroup: loadBalancerConstruct.targetGroup,
+            greenTargetGroup: loadBalancerConstruct.greenTargetGroup,
+            listener: loadBalancerConstruct.listener,
+            testListener: loadBalancerConstruct.testListener,
+            deploymentConfig: props.blueGreenDeploymentConfig,
+            alarmNames: deploymentAlarmNames,
+          }
+        );
+
+        // For starting deployments with `aws deploy create-deployment`
+        new ssm.StringParameter(this, "CodeDeployApplicationParameter", {
+          parameterName: `/codedeploy/${props.envName}/application-name`,
+          stringValue: blueGreen.application.applicationName,
+          description: `CodeDeploy Application for ${props.envName} environment`,
+          tier: ssm.ParameterTier.STANDARD,
+        });
+
+        new ssm.StringParameter(this, "CodeDeployDeploymentGroupParameter", {
+          parameterName: `/codedeploy/${props.envName}/deployment-group-name`,
+          stringValue: blueGreen.deploymentGroup.deploymentGroupName,
+          description: `CodeDeploy Deployment Group for ${props.envName} environment`,
+          tier: ssm.ParameterTier.STANDARD,
+        });
+
+        new cdk.CfnOutput(this, "CodeDeployDeploymentGroup", {
+          value: blueGreen.deploymentGroup.deploymentGroupName,
+          description: "CodeDeploy Deployment Group Name",
+        });
+      }
+
+      // Request count tracking needs the target group, so it is added here
+      if (
+        ecsConstruct.scalableTaskCount &&
+        props.autoScaling?.requestsPerTarget
+      ) {
+        ecsConstruct.scalableTaskCount.scaleOnRequestCount("RequestScaling", {
+          requestsPerTarget: props.autoScaling.requestsPerTarget,
+          targetGroup: loadBalancerConstruct.targetGroup,
+          scaleInCooldown: cdk.Duration.minutes(5),
+          scaleOutCooldown: cdk.Duration.minutes(1),
+        });
+      }
+
+      // Caches static assets, images and the feed at the edge
+      if (props.enableCdn) {
+        const cdn = new CloudFrontConstruct(this, "Cdn", {
+          envName: props.envName,
+          loadBalancer: this.loadBalancer,
+          // Covered by the ALB certificate next to the site domain
+          originDomainName: cdnOriginDomainName,
+          domainNames: props.domainName ? [props.domainName] : undefined,
+          certificate: props.cdnCertificate,
+          assetBucketName: props.assetBucketName,
+        });
+        this.distribution = cdn.distribution;
+
+        if (props.domainName) {
+          loadBalancerConstruct.addDomainAlias(
+            new route53Targets.CloudFrontTarget(this.distribution)
+          );
+        }
+
+        // Read by the deploy workflow to invalidate cached pages and the feed
+        new ssm.StringParameter(this, "CloudFrontDistributionIdParameter", {
+          parameterName: `/cloudfront/${props.envName}/distribution-id`,
+          stringValue: this.distribution.distributionId,
+          description: `CloudFront Distribution ID for ${props.envName} environment`,
+          tier: ssm.ParameterTier.STANDARD,
+        });
+
+        // Base URL the frontend prefixes asset keys with
+        if (props.assetBucketName) {
+          new ssm.StringParameter(this, "AssetBaseUrlParameter", {
+            parameterName: `/assets/${props.envName}/base-url`,
+            stringValue: `${
+              siteUrl || `https://${this.distribution.distributionDomainName}`
+            }/assets`,
+            description: `Asset CDN URL for ${props.envName} environment`,
+            tier: ssm.ParameterTier.STANDARD,
+          });
+        }
+
+        new cdk.CfnOutput(this, "CloudFrontDomainName", {
+          value: this.distribution.distributionDomainName,
+          description: "CloudFront Distribution Domain Name",
+          exportName: `${props.envName}-cloudfront-domain-name`,
+        });
+      }
+
+      new ssm.StringParameter(this, "AlbDnsNameParameter", {
+        parameterName: `/alb/${props.envName}/dns-name`,
+        stringValue: this.loadBalancer.loadBalancerDnsName,
+        description: `ALB DNS Name for ${props.envName} environment`,
+        tier: ssm.ParameterTier.STANDARD,
+      });
+
+      new cdk.CfnOutput(this, "AlbDnsName", {
+        value: this.loadBalancer.loadBalancerDnsName,
+        description: "Application Load Balancer DNS Name",
+        exportName: `${props.envName}-alb-dns-name`,
+      });
+    }
+
+    if (siteUrl) {
+      new cdk.CfnOutput(this, "SiteUrl", {
+        value: siteUrl,
+        description: "Public site URL",
+      });
+    }
+
     // Store ECS information in SSM Parameter Store
     new ssm.StringParameter(this, "EcsClusterNameParameter", {
       parameterName: `/ecs/${props.envName}/cluster-name`,
@@ -122,8 +489,54 @@ export class ComputeStack extends cdk.Stack {
       description: "Container Image Tag",
     });
 
+    new cdk.CfnOutput(this, "ContainerImageUri", {
+      value: containerImageConstruct.imageName,
+      description: "Resolved Container Image",
+    });
+
+    if (ecsConstruct.scheduleDescription) {
+      new cdk.CfnOutput(this, "ScaleSchedule", {
+        value: ecsConstruct.scheduleDescription,
+        description: "Scale-to-zero schedule (tasks and instances)",
+      });
+    }
+
+    if (containerImageConstruct.imageDigest) {
+      new cdk.CfnOutput(this, "ImageDigest", {
+        value: containerImageConstruct.imageDigest,
+        description: "Container Image Digest",
+      });
+    }
+
+    if (containerImageConstruct.releaseParameterName) {
+      new cdk.CfnOutput(this, "ReleaseParameterName", {
+        value: containerImageConstruct.releaseParameterName,
+        description: "SSM Parameter holding the released image tag",
+      });
+    }
+
     // Tags
     cdk.Tags.of(this).add("Stack", "Compute");
     cdk.Tags.of(this).add("Environment", props.envName);
   }
+
+  // Import by ID when known, otherwise look the zone up by name
+  private resolveHostedZone(props: ComputeStackProps): route53.IHostedZone {
+    if (!props.hostedZoneName) {
+      throw new Error(
+        `hostedZoneName is required when domainName is set (${props.domainName})`
+      );
+    }
+
+    if (props.hostedZoneId) {
+      return route53.HostedZone.fromHostedZoneAttributes(this, "HostedZone", {
+        hostedZoneId: props.hostedZoneId,
+        zoneName: props.hostedZoneName,
+      });
+    }
+
+    return route53.HostedZone.fromLookup(this, "HostedZone", {
+      domainName: props.hostedZoneName,
+    });
+  }
 }
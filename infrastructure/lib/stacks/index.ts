@@ -9,5 +9,11 @@ export * from "./storage/storage-stack";
 // Compute stacks
 export * from "./compute/compute-stack";
 
+// CDN stacks
+export * from "./cdn/cdn-certificate-stack";
+
 // Monitoring stacks
 export * from "./monitoring/monitoring-stack";
+
+// Static site stacks
+export * from "./static-site/static-site-stack";
@@ -6,6 +6,7 @@ import * as sns from "aws-cdk-lib/aws-sns";
 import { Construct } from "constructs";
 import { MonitoringConstruct } from "../../constructs/monitoring/monitoring-construct";
 import { EventBridgeConstruct } from "../../constructs/monitoring/eventbridge-construct";
+import { EcrScanFindingsConstruct } from "../../constructs/monitoring/ecr-scan-findings-construct";
 
 export interface MonitoringStackProps extends cdk.StackProps {
   envName: string;
@@ -16,13 +17,18 @@ export interface MonitoringStackProps extends cdk.StackProps {
   enableEventBridge?: boolean;
   pipelineAccountId?: string;
   logRetentionDays?: logs.RetentionDays;
+  loadBalancerFullName?: string; // Enables the ALB 5xx alarm
+  webAclName?: string; // Enables the WAF blocked requests alarm
+  ecrRepositoryName?: string; // Enables ECR image scan findings alerts
 }
 
 /**
  * Monitoring Stack
  *
  * Creates monitoring and observability resources including:
- * - CloudWatch alarms for ECS metrics
+ * - CloudWatch alarms for ECS metrics (and ALB 5xx when load balanced)
+ * - WAF blocked requests alarm (when a web ACL protects the ALB)
+ * - ECR image scan findings alerts and metrics (when a repository is given)
  * - SNS topics for alerts
  * - CloudWatch dashboards (optional)
  * - EventBridge cross-account monitoring (optional)
@@ -48,10 +54,21 @@ export class MonitoringStack extends cdk.Stack {
         (props.envName === "production"
           ? logs.RetentionDays.ONE_MONTH
           : logs.RetentionDays.ONE_WEEK),
+      loadBalancerFullName: props.loadBalancerFullName,
+      webAclName: props.webAclName,
     });
 
     this.alarmTopic = monitoring.alarmTopic;
 
+    // Alert on vulnerable images pushed to the environment's repository
+    if (props.ecrRepositoryName) {
+      new EcrScanFindingsConstruct(this, "EcrScanFindings", {
+        envName: props.envName,
+        repositoryName: props.ecrRepositoryName,
+        alarmTopic: monitoring.alarmTopic,
+      });
+    }
+
     // Create EventBridge cross-account monitoring (optional)
     if (props.enableEventBridge && props.pipelineAccountId) {
       new EventBridgeConstruct(this, "EventBridge", {
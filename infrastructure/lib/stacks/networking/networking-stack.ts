@@ -3,27 +3,42 @@
 import * as cdk from "aws-cdk-lib";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import { Construct } from "constructs";
-import { VpcConstruct } from "../../constructs/networking/vpc-construct";
+import {
+  FlowLogOptions,
+  PrivateEgress,
+  VpcConstruct,
+} from "../../constructs/networking/vpc-construct";
+import { VpcEndpointOptions } from "../../constructs/networking/vpc-endpoints-construct";
+import { IpAddressPlan } from "../../constructs/networking/ip-address-plan";
+import { SsmParametersConstruct } from "../../constructs/config/ssm-parameters-construct";
 
 export interface NetworkingStackProps extends cdk.StackProps {
   envName: string;
   maxAzs?: number;
   natGateways?: number;
+  ipPlan?: IpAddressPlan; // VPC CIDR, subnet masks and optional IPv6
+  privateEgress?: PrivateEgress; // Private compute via NAT instance or VPC endpoints
+  vpcEndpoints?: VpcEndpointOptions; // Endpoint toggles, also adds them with a NAT
+  flowLogs?: FlowLogOptions; // VPC flow logs to CloudWatch Logs or S3
 }
 
 /**
  * Networking Stack
  *
  * Creates the foundational network infrastructure including:
- * - VPC with public/private subnets
+ * - VPC with public/private subnets (IPv4 or dual-stack)
  * - Internet Gateway
  * - Route tables
  * - NAT Gateways (optional)
+ * - NAT instance or VPC endpoints for private compute (optional)
+ * - VPC flow logs and a saved Logs Insights query (optional)
+ * - SSM parameters for the VPC and endpoint IDs
  *
  * This stack should be deployed first as other stacks depend on it.
  */
 export class NetworkingStack extends cdk.Stack {
   public readonly vpc: ec2.IVpc;
+  public readonly computeSubnetType: ec2.SubnetType;
 
   constructor(scope: Construct, id: string, props: NetworkingStackProps) {
     super(scope, id, props);
@@ -32,9 +47,22 @@ export class NetworkingStack extends cdk.Stack {
     const vpcConstruct = new VpcConstruct(this, "Vpc", {
       maxAzs: props.maxAzs || 2,
       natGateways: props.natGateways ?? 0, // Default: 0 for cost optimization
+      ipPlan: props.ipPlan,
+      privateEgress: props.privateEgress,
+      endpoints: props.vpcEndpoints,
+      flowLogs: props.flowLogs,
+      envName: props.envName,
     });
 
     this.vpc = vpcConstruct.vpc;
+    this.computeSubnetType = vpcConstruct.computeSubnetType;
+
+    // Discovered by other stacks, e.g. to rely on the endpoints being present
+    new SsmParametersConstruct(this, "SsmParameters", {
+      envName: props.envName,
+      vpc: this.vpc,
+      vpcEndpointIds: vpcConstruct.endpoints?.endpointIds,
+    });
 
     // Outputs
     new cdk.CfnOutput(this, "VpcId", {
@@ -49,6 +77,33 @@ export class NetworkingStack extends cdk.Stack {
       exportName: `${props.envName}-vpc-cidr`,
     });
 
+    if (vpcConstruct.ipv6CidrBlock) {
+      new cdk.CfnOutput(this, "VpcIpv6Cidr", {
+        value: vpcConstruct.ipv6CidrBlock,
+        description: "VPC IPv6 CIDR Block",
+        exportName: `${props.envName}-vpc-ipv6-cidr`,
+      });
+    }
+
+    new cdk.CfnOutput(this, "ComputeSubnetType", {
+      value: this.computeSubnetType,
+      description: "Subnet tier for ECS instances and tasks",
+    });
+
+    if (vpcConstruct.flowLogGroup) {
+      new cdk.CfnOutput(this, "FlowLogGroupName", {
+        value: vpcConstruct.flowLogGroup.logGroupName,
+        description: "VPC Flow Log Group",
+      });
+    }
+
+    if (vpcConstruct.flowLogBucket) {
+      new cdk.CfnOutput(this, "FlowLogBucketName", {
+        value: vpcConstruct.flowLogBucket.bucketName,
+        description: "VPC Flow Log Bucket",
+      });
+    }
+
     // Tags
     cdk.Tags.of(this).add("Stack", "Networking");
     cdk.Tags.of(this).add("Environment", props.envName);
@@ -0,0 +1,88 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
+import * as s3 from "aws-cdk-lib/aws-s3";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import { Construct } from "constructs";
+import { StaticSiteConstruct } from "../../constructs/storage/static-site-construct";
+
+export interface StaticSiteStackProps extends cdk.StackProps {
+  envName: string;
+}
+
+/**
+ * Static Site Stack
+ *
+ * Replaces the networking, storage, compute and monitoring stacks for
+ * environments with hostingMode STATIC_EXPORT:
+ * - Private S3 bucket for the Next.js static export
+ * - CloudFront distribution with Origin Access Control
+ * - SSM parameters for the deploy and invalidation scripts
+ *
+ * No VPC, instances or tasks: cost is storage and requests only.
+ */
+export class StaticSiteStack extends cdk.Stack {
+  public readonly bucket: s3.Bucket;
+  public readonly distribution: cloudfront.Distribution;
+
+  constructor(scope: Construct, id: string, props: StaticSiteStackProps) {
+    super(scope, id, props);
+
+    const site = new StaticSiteConstruct(this, "StaticSite", {
+      envName: props.envName,
+    });
+
+    this.bucket = site.bucket;
+    this.distribution = site.distribution;
+
+    const siteUrl = `https://${this.distribution.distributionDomainName}`;
+
+    // Store site information in SSM Parameter Store
+    new ssm.StringParameter(this, "BucketNameParameter", {
+      parameterName: `/static-site/${props.envName}/bucket-name`,
+      stringValue: this.bucket.bucketName,
+      description: `Static site bucket for ${props.envName} environment`,
+      tier: ssm.ParameterTier.STANDARD,
+    });
+
+    // Baked into the export as NEXT_PUBLIC_SITE_URL
+    new ssm.StringParameter(this, "SiteUrlParameter", {
+      parameterName: `/static-site/${props.envName}/site-url`,
+      stringValue: siteUrl,
+      description: `Static site URL for ${props.envName} environment`,
+      tier: ssm.ParameterTier.STANDARD,
+    });
+
+    // Same parameter as the container distribution, read by invalidate-cloudfront.sh
+    new ssm.StringParameter(this, "CloudFrontDistributionIdParameter", {
+      parameterName: `/cloudfront/${props.envName}/distribution-id`,
+      stringValue: this.distribution.distributionId,
+      description: `CloudFront Distribution ID for ${props.envName} environment`,
+      tier: ssm.ParameterTier.STANDARD,
+    });
+
+    // Outputs
+    new cdk.CfnOutput(this, "BucketName", {
+      value: this.bucket.bucketName,
+      description: "Static Site Bucket Name",
+      exportName: `${props.envName}-static-site-bucket-name`,
+    });
+
+    new cdk.CfnOutput(this, "SiteUrl", {
+      value: siteUrl,
+      description: "Static Site URL",
+      exportName: `${props.envName}-static-site-url`,
+    });
+
+    new cdk.CfnOutput(this, "CloudFrontDomainName", {
+      value: this.distribution.distributionDomainName,
+      description: "CloudFront Distribution Domain Name",
+      exportName: `${props.envName}-cloudfront-domain-name`,
+    });
+
+    // Tags
+    cdk.Tags.of(this).add("Stack", "StaticSite");
+    cdk.Tags.of(this).add("Environment", props.envName);
+  }
+}
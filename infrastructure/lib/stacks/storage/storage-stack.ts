@@ -2,13 +2,23 @@
 
 import * as cdk from "aws-cdk-lib";
 import * as ecr from "aws-cdk-lib/aws-ecr";
+import * as s3 from "aws-cdk-lib/aws-s3";
 import * as ssm from "aws-cdk-lib/aws-ssm";
 import { Construct } from "constructs";
-import { EcrConstruct } from "../../constructs/storage/ecr-construct";
+import { ecrReleaseContextKey } from "../../constructs/compute/container-image-construct";
+import { AssetBucketConstruct } from "../../constructs/storage/asset-bucket-construct";
+import {
+  EcrConstruct,
+  EcrReplicationOptions,
+  EcrScanType,
+} from "../../constructs/storage/ecr-construct";
 
 export interface StorageStackProps extends cdk.StackProps {
   envName: string;
   pipelineAccount?: string;
+  ecrReplication?: EcrReplicationOptions; // Recovery region and pipeline account copies
+  protectCurrentRelease?: boolean; // Never expire the tag in /ecr/{envName}/current-release (read from context)
+  ecrScanType?: EcrScanType; // Default: BASIC scan on push
 }
 
 /**
@@ -16,7 +26,9 @@ export interface StorageStackProps extends cdk.StackProps {
  *
  * Creates storage resources including:
  * - ECR repository for container images
- * - Lifecycle policies
+ * - Lifecycle policies that keep the current release
+ * - Image replication to a recovery region (optional)
+ * - S3 bucket for article images and diagrams
  * - Cross-account access for CI/CD
  * - SSM parameters for resource discovery
  *
@@ -24,6 +36,7 @@ export interface StorageStackProps extends cdk.StackProps {
  */
 export class StorageStack extends cdk.Stack {
   public readonly repository: ecr.Repository;
+  public readonly assetBucket: s3.Bucket;
 
   constructor(scope: Construct, id: string, props: StorageStackProps) {
     super(scope, id, props);
@@ -32,10 +45,25 @@ export class StorageStack extends cdk.Stack {
     const ecrConstruct = new EcrConstruct(this, "Ecr", {
       repositoryName: `app-repo-${props.envName}`,
       pipelineAccount: props.pipelineAccount,
+      lifecyclePolicy: {
+        protectedTags: props.protectCurrentRelease
+          ? this.currentReleaseTags(props.envName)
+          : undefined,
+      },
+      replication: props.ecrReplication,
+      scanType: props.ecrScanType,
     });
 
     this.repository = ecrConstruct.repository;
 
+    // Create asset bucket, published by the pipeline and served by CloudFront
+    const assetBucketConstruct = new AssetBucketConstruct(this, "Assets", {
+      envName: props.envName,
+      pipelineAccount: props.pipelineAccount,
+    });
+
+    this.assetBucket = assetBucketConstruct.bucket;
+
     // Store ECR information in SSM Parameter Store
     new ssm.StringParameter(this, "RepositoryUriParameter", {
       parameterName: `/ecr/${props.envName}/repository-uri`,
@@ -58,6 +86,21 @@ export class StorageStack extends cdk.Stack {
       tier: ssm.ParameterTier.STANDARD,
     });
 
+    // Store asset bucket information in SSM Parameter Store
+    new ssm.StringParameter(this, "AssetBucketNameParameter", {
+      parameterName: `/assets/${props.envName}/bucket-name`,
+      stringValue: this.assetBucket.bucketName,
+      description: `Asset bucket name for ${props.envName} environment`,
+      tier: ssm.ParameterTier.STANDARD,
+    });
+
+    new ssm.StringParameter(this, "AssetBucketArnParameter", {
+      parameterName: `/assets/${props.envName}/bucket-arn`,
+      stringValue: this.assetBucket.bucketArn,
+      description: `Asset bucket ARN for ${props.envName} environment`,
+      tier: ssm.ParameterTier.STANDARD,
+    });
+
     // Outputs
     new cdk.CfnOutput(this, "RepositoryUri", {
       value: this.repository.repositoryUri,
@@ -77,8 +120,36 @@ export class StorageStack extends cdk.Stack {
       exportName: `${props.envName}-ecr-repository-name`,
     });
 
+    new cdk.CfnOutput(this, "AssetBucketName", {
+      value: this.assetBucket.bucketName,
+      description: "Asset Bucket Name",
+      exportName: `${props.envName}-asset-bucket-name`,
+    });
+
     // Tags
     cdk.Tags.of(this).add("Stack", "Storage");
     cdk.Tags.of(this).add("Environment", props.envName);
   }
+
+  // Released tag passed by scripts/resolve-image-digest.sh on every
+  // deployment, a cached lookup would protect a stale release. Digests and
+  // the placeholder image have no tag to protect.
+  private currentReleaseTags(envName: string): string[] {
+    const parameterName = `/ecr/${envName}/current-release`;
+    const release: string | undefined = this.node.tryGetContext(
+      ecrReleaseContextKey(parameterName)
+    );
+
+    if (release === undefined) {
+      cdk.Annotations.of(this).addWarningV2(
+        "@app/storage:noCurrentRelease",
+        `No release for ${parameterName} in context, the lifecycle policy protects no tag`
+      );
+      return [];
+    }
+
+    return release.startsWith("sha256:") || release.includes(":")
+      ? []
+      : [release];
+  }
 }
@@ -0,0 +1,150 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { AssetBucketConstruct } from "../../lib/constructs/storage/asset-bucket-construct";
+
+describe("AssetBucketConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack", {
+      env: { account: "123456789012", region: "eu-west-1" },
+    });
+  });
+
+  const policyStatements = (template: Template) =>
+    Object.values(template.findResources("AWS::S3::BucketPolicy"))[0].Properties
+      .PolicyDocument.Statement;
+
+  test("creates an encrypted, versioned, private bucket", () => {
+    new AssetBucketConstruct(stack, "Assets", { envName: "test" });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::S3::Bucket", {
+      BucketEncryption: {
+        ServerSideEncryptionConfiguration: [
+          { ServerSideEncryptionByDefault: { SSEAlgorithm: "AES256" } },
+        ],
+      },
+      VersioningConfiguration: { Status: "Enabled" },
+      PublicAccessBlockConfiguration: {
+        BlockPublicAcls: true,
+        BlockPublicPolicy: true,
+        IgnorePublicAcls: true,
+        RestrictPublicBuckets: true,
+      },
+    });
+    template.hasResource("AWS::S3::Bucket", { DeletionPolicy: "Retain" });
+  });
+
+  test("expires noncurrent versions and incomplete uploads", () => {
+    new AssetBucketConstruct(stack, "Assets", { envName: "test" });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::S3::Bucket", {
+      LifecycleConfiguration: {
+        Rules: [
+          Match.objectLike({
+            Id: "ExpireNoncurrentVersions",
+            NoncurrentVersionExpiration: { NoncurrentDays: 30 },
+            ExpiredObjectDeleteMarker: true,
+          }),
+          Match.objectLike({
+            Id: "AbortIncompleteUploads",
+            AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 },
+          }),
+        ],
+      },
+    });
+  });
+
+  test("keeps noncurrent versions for the configured days", () => {
+    new AssetBucketConstruct(stack, "Assets", {
+      envName: "test",
+      noncurrentVersionRetentionDays: 90,
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::S3::Bucket", {
+      LifecycleConfiguration: {
+        Rules: Match.arrayWith([
+          Match.objectLike({
+            NoncurrentVersionExpiration: { NoncurrentDays: 90 },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test("throws when noncurrent versions would expire immediately", () => {
+    expect(() => {
+      new AssetBucketConstruct(stack, "Assets", {
+        envName: "test",
+        noncurrentVersionRetentionDays: 0,
+      });
+    }).toThrow(/noncurrentVersionRetentionDays must be at least 1/);
+  });
+
+  test("denies requests without TLS", () => {
+    new AssetBucketConstruct(stack, "Assets", { envName: "test" });
+    const template = Template.fromStack(stack);
+
+    expect(policyStatements(template)).toContainEqual(
+      expect.objectContaining({
+        Effect: "Deny",
+        Action: "s3:*",
+        Condition: { Bool: { "aws:SecureTransport": "false" } },
+      })
+    );
+  });
+
+  test("lets this account's CloudFront distributions read assets", () => {
+    new AssetBucketConstruct(stack, "Assets", { envName: "test" });
+    const template = Template.fromStack(stack);
+
+    const statement = policyStatements(template).find(
+      (candidate: { Sid?: string }) =>
+        candidate.Sid === "AllowCloudFrontOriginAccessControl"
+    );
+    expect(statement).toMatchObject({
+      Effect: "Allow",
+      Principal: { Service: "cloudfront.amazonaws.com" },
+      Action: "s3:GetObject",
+      Condition: {
+        StringEquals: { "AWS:SourceAccount": "123456789012" },
+      },
+    });
+    expect(JSON.stringify(statement.Resource)).toContain("/assets/*");
+  });
+
+  test("grants publish access to the pipeline account", () => {
+    new AssetBucketConstruct(stack, "Assets", {
+      envName: "test",
+      pipelineAccount: "444444444444",
+    });
+    const template = Template.fromStack(stack);
+
+    const statement = policyStatements(template).find(
+      (candidate: { Principal: object }) =>
+        JSON.stringify(candidate.Principal).includes("444444444444")
+    );
+    expect(statement.Action).toEqual(
+      expect.arrayContaining(["s3:PutObject", "s3:DeleteObject*", "s3:List*"])
+    );
+  });
+
+  test("grants no cross-account access without a pipeline account", () => {
+    new AssetBucketConstruct(stack, "Assets", { envName: "test" });
+    const template = Template.fromStack(stack);
+
+    expect(
+      policyStatements(template).filter(
+        (candidate: { Effect: string; Principal: { AWS?: unknown } }) =>
+          candidate.Effect === "Allow" && candidate.Principal.AWS
+      )
+    ).toHaveLength(0);
+  });
+});
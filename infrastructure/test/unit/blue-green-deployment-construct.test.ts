@@ -0,0 +1,154 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { EcsConstruct } from "../../lib/constructs/compute/ecs-construct";
+import { BlueGreenDeploymentConstruct } from "../../lib/constructs/compute/blue-green-deployment-construct";
+import { LoadBalancerConstruct } from "../../lib/constructs/networking/load-balancer-construct";
+
+describe("BlueGreenDeploymentConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+  let ecsConstruct: EcsConstruct;
+  let albConstruct: LoadBalancerConstruct;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+    const vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2 });
+    ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+      vpc,
+      envName: "test",
+      containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      containerPort: 3000,
+      deploymentStrategy: "BLUE_GREEN",
+    });
+    albConstruct = new LoadBalancerConstruct(stack, "TestAlb", {
+      vpc,
+      envName: "test",
+      service: ecsConstruct.service,
+      containerPort: 3000,
+      enableBlueGreen: true,
+    });
+  });
+
+  function createBlueGreen(
+    props?: Partial<{
+      alarmNames: string[];
+      deploymentConfig: codedeploy.IEcsDeploymentConfig;
+    }>
+  ) {
+    return new BlueGreenDeploymentConstruct(stack, "TestBlueGreen", {
+      envName: "test",
+      service: ecsConstruct.service,
+      blueTargetGroup: albConstruct.targetGroup,
+      greenTargetGroup: albConstruct.greenTargetGroup!,
+      listener: albConstruct.listener,
+      testListener: albConstruct.testListener,
+      ...props,
+    });
+  }
+
+  test("creates CodeDeploy ECS application", () => {
+    createBlueGreen();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::Application", {
+      ApplicationName: "ecs-app-test",
+      ComputePlatform: "ECS",
+    });
+  });
+
+  test("uses canary 10 percent 5 minutes by default", () => {
+    createBlueGreen();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      DeploymentGroupName: "ecs-dg-test",
+      DeploymentConfigName: "CodeDeployDefault.ECSCanary10Percent5Minutes",
+      DeploymentStyle: {
+        DeploymentOption: "WITH_TRAFFIC_CONTROL",
+        DeploymentType: "BLUE_GREEN",
+      },
+    });
+  });
+
+  test("respects custom deployment config", () => {
+    createBlueGreen({
+      deploymentConfig: codedeploy.EcsDeploymentConfig.ALL_AT_ONCE,
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      DeploymentConfigName: "CodeDeployDefault.ECSAllAtOnce",
+    });
+  });
+
+  test("wires blue and green target groups with prod and test listeners", () => {
+    createBlueGreen();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      LoadBalancerInfo: {
+        TargetGroupPairInfoList: [
+          {
+            ProdTrafficRoute: { ListenerArns: [Match.anyValue()] },
+            TestTrafficRoute: { ListenerArns: [Match.anyValue()] },
+            TargetGroups: [
+              { Name: Match.anyValue() },
+              { Name: Match.anyValue() },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  test("rolls back on failure, stop and alarms", () => {
+    createBlueGreen({
+      alarmNames: ["test-ecs-high-cpu", "test-ecs-high-memory", "test-alb-5xx"],
+    });
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      AlarmConfiguration: {
+        Alarms: [
+          { Name: "test-ecs-high-cpu" },
+          { Name: "test-ecs-high-memory" },
+          { Name: "test-alb-5xx" },
+        ],
+        Enabled: true,
+      },
+      AutoRollbackConfiguration: {
+        Enabled: true,
+        Events: [
+          "DEPLOYMENT_FAILURE",
+          "DEPLOYMENT_STOP_ON_REQUEST",
+          "DEPLOYMENT_STOP_ON_ALARM",
+        ],
+      },
+    });
+  });
+
+  test("rolls back on failure without alarms", () => {
+    createBlueGreen();
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      AutoRollbackConfiguration: {
+        Enabled: true,
+        Events: ["DEPLOYMENT_FAILURE", "DEPLOYMENT_STOP_ON_REQUEST"],
+      },
+    });
+  });
+
+  test("exposes application and deployment group", () => {
+    const blueGreen = createBlueGreen();
+
+    expect(blueGreen.application).toBeDefined();
+    expect(blueGreen.deploymentGroup).toBeDefined();
+  });
+});
@@ -0,0 +1,297 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { Annotations, Template, Match } from "aws-cdk-lib/assertions";
+import { CloudFrontConstruct } from "../../lib/constructs/networking/cloudfront-construct";
+
+describe("CloudFrontConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+  let loadBalancer: elbv2.ApplicationLoadBalancer;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+    const vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2, natGateways: 0 });
+    loadBalancer = new elbv2.ApplicationLoadBalancer(stack, "Alb", {
+      vpc,
+      internetFacing: true,
+    });
+  });
+
+  const distributionConfig = (template: Template) =>
+    Object.values(template.findResources("AWS::CloudFront::Distribution"))[0]
+      .Properties.DistributionConfig;
+
+  const behavior = (template: Template, pathPattern: string) =>
+    distributionConfig(template).CacheBehaviors.find(
+      (candidate: { PathPattern: string }) =>
+        candidate.PathPattern === pathPattern
+    );
+
+  describe("Origin", () => {
+    test("reaches the ALB over HTTP by default", () => {
+      new CloudFrontConstruct(stack, "Cdn", { envName: "test", loadBalancer });
+      const template = Template.fromStack(stack);
+
+      expect(distributionConfig(template).Origins).toEqual([
+        expect.objectContaining({
+          DomainName: stack.resolve(loadBalancer.loadBalancerDnsName),
+          CustomOriginConfig: expect.objectContaining({
+            OriginProtocolPolicy: "http-only",
+          }),
+        }),
+      ]);
+    });
+
+    test("reaches the ALB over HTTPS through its domain", () => {
+      new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+        originDomainName: "staging.example.com",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(distributionConfig(template).Origins).toEqual([
+        expect.objectContaining({
+          DomainName: "staging.example.com",
+          CustomOriginConfig: expect.objectContaining({
+            OriginProtocolPolicy: "https-only",
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe("Cache Behaviors", () => {
+    test("caches /_next/static for a year", () => {
+      const cdn = new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: Match.objectLike({
+          Name: "test-next-static",
+          MinTTL: 31536000,
+          DefaultTTL: 31536000,
+          MaxTTL: 31536000,
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            QueryStringsConfig: { QueryStringBehavior: "none" },
+            CookiesConfig: { CookieBehavior: "none" },
+          }),
+        }),
+      });
+      expect(behavior(template, "/_next/static/*")).toMatchObject({
+        ViewerProtocolPolicy: "redirect-to-https",
+        Compress: true,
+      });
+      expect(behavior(template, "/_next/static/*").CachePolicyId).toEqual(
+        stack.resolve(cdn.staticCachePolicy.cachePolicyId)
+      );
+    });
+
+    test("keys optimized images on url, width, quality and Accept", () => {
+      const cdn = new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: Match.objectLike({
+          Name: "test-next-image",
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            QueryStringsConfig: {
+              QueryStringBehavior: "whitelist",
+              QueryStrings: ["url", "w", "q"],
+            },
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: ["Accept"],
+            },
+          }),
+        }),
+      });
+      expect(behavior(template, "/_next/image*").CachePolicyId).toEqual(
+        stack.resolve(cdn.imageCachePolicy.cachePolicyId)
+      );
+    });
+
+    test("honors the feed's s-maxage", () => {
+      const cdn = new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: Match.objectLike({
+          Name: "test-feed",
+          MinTTL: 0,
+          MaxTTL: 31536000,
+        }),
+      });
+      expect(behavior(template, "/feed.xml").CachePolicyId).toEqual(
+        stack.resolve(cdn.feedCachePolicy.cachePolicyId)
+      );
+    });
+
+    test("never caches /api/* and forwards all methods", () => {
+      new CloudFrontConstruct(stack, "Cdn", { envName: "test", loadBalancer });
+      const template = Template.fromStack(stack);
+
+      expect(behavior(template, "/api/*")).toMatchObject({
+        // Managed CachingDisabled and AllViewerExceptHostHeader policies
+        CachePolicyId: "4135ea2d-6df8-44a3-9df3-4b5a84be39ad",
+        OriginRequestPolicyId: "b689b0a8-53d0-40ab-baf2-68738e2966ac",
+        AllowedMethods: [
+          "GET",
+          "HEAD",
+          "OPTIONS",
+          "PUT",
+          "PATCH",
+          "POST",
+          "DELETE",
+        ],
+      });
+    });
+
+    test("keys pages on the Next.js router headers", () => {
+      const cdn = new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudFront::CachePolicy", {
+        CachePolicyConfig: Match.objectLike({
+          Name: "test-next-pages",
+          DefaultTTL: 0,
+          ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+            QueryStringsConfig: { QueryStringBehavior: "all" },
+            HeadersConfig: {
+              HeaderBehavior: "whitelist",
+              Headers: [
+                "RSC",
+                "Next-Router-Prefetch",
+                "Next-Router-State-Tree",
+                "Next-Url",
+              ],
+            },
+          }),
+        }),
+      });
+      expect(
+        distributionConfig(template).DefaultCacheBehavior.CachePolicyId
+      ).toEqual(stack.resolve(cdn.pageCachePolicy.cachePolicyId));
+    });
+  });
+
+  describe("Asset Bucket", () => {
+    test("serves /assets/* from the bucket through Origin Access Control", () => {
+      new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+        assetBucketName: "asset-bucket",
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::CloudFront::OriginAccessControl", 1);
+      const assetOrigin = distributionConfig(template).Origins.find(
+        (origin: { S3OriginConfig?: object }) => origin.S3OriginConfig
+      );
+      expect(JSON.stringify(assetOrigin.DomainName)).toContain(
+        "asset-bucket.s3."
+      );
+      expect(assetOrigin.OriginAccessControlId).toBeDefined();
+      expect(behavior(template, "/assets/*")).toMatchObject({
+        TargetOriginId: assetOrigin.Id,
+        CachePolicyId: "658327ea-f89d-4fab-a63d-7e88639e58f6", // CachingOptimized
+        ViewerProtocolPolicy: "redirect-to-https",
+      });
+    });
+
+    test("acknowledges the imported bucket policy warning", () => {
+      new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+        assetBucketName: "asset-bucket",
+      });
+
+      Annotations.fromStack(stack).hasNoWarning("*", Match.anyValue());
+    });
+
+    test("has no /assets/* behavior without a bucket", () => {
+      new CloudFrontConstruct(stack, "Cdn", { envName: "test", loadBalancer });
+      const template = Template.fromStack(stack);
+
+      expect(behavior(template, "/assets/*")).toBeUndefined();
+    });
+  });
+
+  describe("Distribution", () => {
+    test("serves HTTP/2 and HTTP/3 from the cheapest price class", () => {
+      new CloudFrontConstruct(stack, "Cdn", { envName: "test", loadBalancer });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudFront::Distribution", {
+        DistributionConfig: Match.objectLike({
+          HttpVersion: "http2and3",
+          PriceClass: "PriceClass_100",
+        }),
+      });
+    });
+
+    test("attaches a CLOUDFRONT web ACL", () => {
+      new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+        webAclArn:
+          "arn:aws:wafv2:us-east-1:123456789012:global/webacl/web-acl-test/abc",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(distributionConfig(template).WebACLId).toMatch(
+        /global\/webacl\/web-acl-test/
+      );
+    });
+
+    test("serves custom domains with a us-east-1 certificate", () => {
+      new CloudFrontConstruct(stack, "Cdn", {
+        envName: "test",
+        loadBalancer,
+        domainNames: ["cdn.example.com"],
+        certificate: acm.Certificate.fromCertificateArn(
+          stack,
+          "Certificate",
+          "arn:aws:acm:us-east-1:123456789012:certificate/abc"
+        ),
+      });
+      const template = Template.fromStack(stack);
+
+      expect(distributionConfig(template)).toMatchObject({
+        Aliases: ["cdn.example.com"],
+        ViewerCertificate: {
+          AcmCertificateArn:
+            "arn:aws:acm:us-east-1:123456789012:certificate/abc",
+          MinimumProtocolVersion: "TLSv1.2_2021",
+        },
+      });
+    });
+
+    test("throws when domains are set without a certificate", () => {
+      expect(() => {
+        new CloudFrontConstruct(stack, "Cdn", {
+          envName: "test",
+          loadBalancer,
+          domainNames: ["cdn.example.com"],
+        });
+      }).toThrow(/certificate is required when domainNames are set/);
+    });
+  });
+});
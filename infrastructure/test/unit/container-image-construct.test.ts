@@ -0,0 +1,435 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import {
+  ContainerImageConstruct,
+  ecrImageContextKey,
+  ecrImageScanContextKey,
+  ecrReleaseContextKey,
+} from "../../lib/constructs/compute/container-image-construct";
+
+const env = { account: "123456789012", region: "eu-west-1" };
+const digest = `sha256:${"a".repeat(64)}`;
+
+describe("ContainerImageConstruct", () => {
+  let originalImageTag: string | undefined;
+
+  beforeEach(() => {
+    originalImageTag = process.env.IMAGE_TAG;
+    delete process.env.IMAGE_TAG;
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    if (originalImageTag === undefined) {
+      delete process.env.IMAGE_TAG;
+    } else {
+      process.env.IMAGE_TAG = originalImageTag;
+    }
+    jest.restoreAllMocks();
+  });
+
+  function createStack(context?: Record<string, string>) {
+    const app = new cdk.App({ context });
+    const stack = new cdk.Stack(app, "TestStack", { env });
+    const repository = new ecr.Repository(stack, "Repo", {
+      repositoryName: "test-repo",
+    });
+    return { stack, repository };
+  }
+
+  describe("Environment Variable Source", () => {
+    test("uses public placeholder without IMAGE_TAG", () => {
+      const { stack, repository } = createStack();
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+      });
+
+      expect(image.isEcrImage).toBe(false);
+      expect(image.imageName).toBe("nginx:alpine");
+    });
+
+    test("uses ECR image for IMAGE_TAG", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack();
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+      });
+
+      expect(image.isEcrImage).toBe(true);
+      expect(image.imageTag).toBe("abc1234");
+    });
+
+    test("refuses placeholder when not allowed", () => {
+      const { stack, repository } = createStack();
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          allowPlaceholder: false,
+        });
+      }).toThrow(/Refusing to deploy placeholder image nginx:alpine/);
+    });
+  });
+
+  describe("SSM Parameter Source", () => {
+    test("reads released tag from /ecr/{env}/current-release", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/test/current-release")]: "v1.2.3",
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        imageSource: "SSM_PARAMETER",
+      });
+
+      expect(image.releaseParameterName).toBe("/ecr/test/current-release");
+      expect(image.imageTag).toBe("v1.2.3");
+      expect(image.isEcrImage).toBe(true);
+    });
+
+    test("ignores IMAGE_TAG", () => {
+      process.env.IMAGE_TAG = "local-build";
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/test/current-release")]: "v1.2.3",
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        imageSource: "SSM_PARAMETER",
+      });
+
+      expect(image.imageTag).toBe("v1.2.3");
+    });
+
+    test("treats sha256 digests as ECR images", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/test/current-release")]: digest,
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        imageSource: "SSM_PARAMETER",
+      });
+
+      expect(image.isEcrImage).toBe(true);
+      expect(stack.resolve(image.imageName)).toEqual(
+        expect.objectContaining({
+          "Fn::Join": ["", expect.arrayContaining([`@${digest}`])],
+        })
+      );
+    });
+
+    test("supports custom parameter name", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/releases/web")]: "v2.0.0",
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        imageSource: "SSM_PARAMETER",
+        releaseParameterName: "/releases/web",
+      });
+
+      expect(image.imageTag).toBe("v2.0.0");
+    });
+
+    test("refuses placeholder release when not allowed", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/production/current-release")]:
+          "nginx:alpine",
+      });
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "production",
+          imageSource: "SSM_PARAMETER",
+          allowPlaceholder: false,
+        });
+      }).toThrow(/set \/ecr\/production\/current-release/);
+    });
+
+    test("falls back to the placeholder without a release", () => {
+      const { stack, repository } = createStack();
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        imageSource: "SSM_PARAMETER",
+      });
+
+      expect(image.imageTag).toBe("nginx:alpine");
+      expect(image.isEcrImage).toBe(false);
+    });
+
+    test("fails synth without a release when the placeholder isn't allowed", () => {
+      const { stack, repository } = createStack();
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "production",
+          imageSource: "SSM_PARAMETER",
+          allowPlaceholder: false,
+        });
+      }).toThrow(
+        /No release for \/ecr\/production\/current-release in context/
+      );
+    });
+
+    test("throws without envName or parameter name", () => {
+      const { stack, repository } = createStack();
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          imageSource: "SSM_PARAMETER",
+        });
+      }).toThrow(/envName or releaseParameterName is required/);
+    });
+  });
+
+  describe("Digest Pinning", () => {
+    test("pins the resolved digest instead of the tag", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack({
+        [ecrImageContextKey("app-repo-test", "abc1234")]: digest,
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        pinDigest: true,
+      });
+
+      expect(image.imageTag).toBe("abc1234");
+      expect(image.imageDigest).toBe(digest);
+      expect(JSON.stringify(stack.resolve(image.imageName))).toContain(
+        `@${digest}`
+      );
+    });
+
+    test("validates without pinning", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack({
+        [ecrImageContextKey("app-repo-test", "abc1234")]: digest,
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        validateImage: true,
+      });
+
+      expect(image.imageDigest).toBe(digest);
+      expect(JSON.stringify(stack.resolve(image.imageName))).toContain(
+        ":abc1234"
+      );
+    });
+
+    test("fails synth when the tag is not in the repository", () => {
+      process.env.IMAGE_TAG = "missing";
+      const { stack, repository } = createStack();
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          pinDigest: true,
+        });
+      }).toThrow(/Image missing not found in app-repo-test/);
+    });
+
+    test("fails synth when a requested digest resolves differently", () => {
+      const requested = `sha256:${"b".repeat(64)}`;
+      process.env.IMAGE_TAG = requested;
+      const { stack, repository } = createStack({
+        [ecrImageContextKey("app-repo-test", requested)]: digest,
+      });
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          pinDigest: true,
+        });
+      }).toThrow(/resolved to/);
+    });
+
+    test("rejects malformed digests", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack({
+        [ecrImageContextKey("app-repo-test", "abc1234")]: "latest",
+      });
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          pinDigest: true,
+        });
+      }).toThrow(/Invalid digest latest/);
+    });
+
+    test("skips validation for the public placeholder", () => {
+      const { stack, repository } = createStack();
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        pinDigest: true,
+      });
+
+      expect(image.isEcrImage).toBe(false);
+      expect(image.imageDigest).toBeUndefined();
+    });
+
+    test("validates the released tag", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/test/current-release")]: "sha-abc",
+      });
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          imageSource: "SSM_PARAMETER",
+          pinDigest: true,
+        });
+      }).toThrow(/Image sha-abc not found in app-repo-test/);
+    });
+  });
+
+  describe("Critical Findings", () => {
+    const scannedContext = (criticalFindings?: string) => ({
+      [ecrImageContextKey("app-repo-test", "abc1234")]: digest,
+      ...(criticalFindings === undefined
+        ? {}
+        : {
+            [ecrImageScanContextKey("app-repo-test", digest)]: criticalFindings,
+          }),
+    });
+
+    test("deploys an image without critical findings", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext("0"));
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        blockCriticalFindings: true,
+      });
+
+      expect(image.imageDigest).toBe(digest);
+    });
+
+    test("refuses an image with critical findings", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext("2"));
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          pinDigest: true,
+          blockCriticalFindings: true,
+        });
+      }).toThrow(
+        /Refusing to deploy abc1234: its latest scan in app-repo-test has 2 critical findings/
+      );
+    });
+
+    test("refuses an image without a scan result", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext());
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          blockCriticalFindings: true,
+        });
+      }).toThrow(/No scan result for sha256:a+ in app-repo-test/);
+    });
+
+    test("rejects malformed findings counts", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext("None"));
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          blockCriticalFindings: true,
+        });
+      }).toThrow(/Invalid critical findings count None/);
+    });
+
+    test("checks the findings of the released image", () => {
+      const { stack, repository } = createStack({
+        [ecrReleaseContextKey("/ecr/test/current-release")]: "abc1234",
+        ...scannedContext("2"),
+      });
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          imageSource: "SSM_PARAMETER",
+          blockCriticalFindings: true,
+        });
+      }).toThrow(/Refusing to deploy abc1234/);
+    });
+
+    test("requires image validation", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext("0"));
+
+      expect(() => {
+        new ContainerImageConstruct(stack, "Image", {
+          repository,
+          envName: "test",
+          validateImage: false,
+          blockCriticalFindings: true,
+        });
+      }).toThrow(/blockCriticalFindings needs the image validated in ECR/);
+    });
+
+    test("ignores findings unless blocking is enabled", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const { stack, repository } = createStack(scannedContext("2"));
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository,
+        envName: "test",
+        pinDigest: true,
+      });
+
+      expect(image.imageDigest).toBe(digest);
+    });
+  });
+
+  describe("Replicated Repository", () => {
+    test("pulls the replica in the recovery region by name", () => {
+      process.env.IMAGE_TAG = "abc1234";
+      const app = new cdk.App();
+      const stack = new cdk.Stack(app, "RecoveryStack", {
+        env: { account: env.account, region: "eu-central-1" },
+      });
+      const image = new ContainerImageConstruct(stack, "Image", {
+        repository: ecr.Repository.fromRepositoryName(
+          stack,
+          "Replica",
+          "app-repo-test"
+        ),
+        envName: "test",
+      });
+
+      expect(stack.resolve(image.imageName)).toEqual({
+        "Fn::Join": [
+          "",
+          [
+            "123456789012.dkr.ecr.eu-central-1.",
+            { Ref: "AWS::URLSuffix" },
+            "/app-repo-test:abc1234",
+          ],
+        ],
+      });
+    });
+  });
+});
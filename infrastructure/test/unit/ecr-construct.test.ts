@@ -43,37 +43,55 @@ describe("EcrConstruct", () => {
     });
   });
 
-  test("creates lifecycle rule with default max image count", () => {
+  const lifecycleRules = (template: Template) => {
+    const repository = Object.values(
+      template.findResources("AWS::ECR::Repository")
+    )[0];
+    return JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText)
+      .rules;
+  };
+
+  test("creates the default lifecycle policy", () => {
     new EcrConstruct(stack, "TestEcr", {
       repositoryName: "test-repo",
     });
 
     const template = Template.fromStack(stack);
 
-    const resources = template.findResources("AWS::ECR::Repository");
-    const repository = Object.values(resources)[0];
-    const lifecyclePolicy = JSON.parse(
-      repository.Properties.LifecyclePolicy.LifecyclePolicyText
-    );
-
-    expect(lifecyclePolicy.rules[0].selection.countNumber).toBe(10);
+    expect(
+      lifecycleRules(template).map(
+        (rule: {
+          selection: { tagStatus: string; tagPrefixList?: string[] };
+        }) => [rule.selection.tagStatus, rule.selection.tagPrefixList]
+      )
+    ).toEqual([
+      ["tagged", ["pr-"]],
+      ["tagged", ["v"]],
+      ["tagged", ["sha-"]],
+      ["untagged", undefined],
+      ["any", undefined],
+    ]);
   });
 
-  test("creates lifecycle rule with custom max image count", () => {
+  test("never expires protected tags", () => {
     new EcrConstruct(stack, "TestEcr", {
       repositoryName: "test-repo",
-      lifecycleRules: 5,
+      lifecyclePolicy: { protectedTags: ["sha-abc1234"], maxReleaseImages: 5 },
     });
 
     const template = Template.fromStack(stack);
+    const rules = lifecycleRules(template);
 
-    const resources = template.findResources("AWS::ECR::Repository");
-    const repository = Object.values(resources)[0];
-    const lifecyclePolicy = JSON.parse(
-      repository.Properties.LifecyclePolicy.LifecyclePolicyText
-    );
-
-    expect(lifecyclePolicy.rules[0].selection.countNumber).toBe(5);
+    expect(rules[0]).toMatchObject({
+      rulePriority: 1,
+      selection: {
+        tagStatus: "tagged",
+        tagPatternList: ["sha-abc1234"],
+        countType: "imageCountMoreThan",
+        countNumber: 1,
+      },
+    });
+    expect(rules[3].selection.countNumber).toBe(5);
   });
 
   test("grants pipeline account access when specified", () => {
@@ -122,4 +140,124 @@ describe("EcrConstruct", () => {
     expect(construct.repository).toBeDefined();
     expect(construct.repository).toBeInstanceOf(ecr.Repository);
   });
+
+  describe("Scanning", () => {
+    test("scans on push without a registry scanning configuration", () => {
+      new EcrConstruct(stack, "TestEcr", { repositoryName: "test-repo" });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::ECR::RegistryScanningConfiguration", 0);
+    });
+
+    test("enables continuous Inspector scanning for the repository", () => {
+      new EcrConstruct(stack, "TestEcr", {
+        repositoryName: "test-repo",
+        scanType: "ENHANCED",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ECR::RegistryScanningConfiguration",
+        {
+          ScanType: "ENHANCED",
+          Rules: [
+            {
+              ScanFrequency: "CONTINUOUS_SCAN",
+              RepositoryFilters: [
+                { Filter: "test-repo", FilterType: "WILDCARD" },
+              ],
+            },
+          ],
+        }
+      );
+    });
+  });
+
+  describe("Replication", () => {
+    let regionalStack: cdk.Stack;
+
+    beforeEach(() => {
+      regionalStack = new cdk.Stack(app, "RegionalStack", {
+        env: { account: "111111111111", region: "eu-west-1" },
+      });
+    });
+
+    test("copies the repository's images to the recovery region", () => {
+      new EcrConstruct(regionalStack, "TestEcr", {
+        repositoryName: "test-repo",
+        replication: { recoveryRegion: "eu-central-1" },
+      });
+
+      const template = Template.fromStack(regionalStack);
+
+      template.hasResourceProperties("AWS::ECR::ReplicationConfiguration", {
+        ReplicationConfiguration: {
+          Rules: [
+            {
+              Destinations: [
+                { Region: "eu-central-1", RegistryId: "111111111111" },
+              ],
+              RepositoryFilters: [
+                { Filter: "test-repo", FilterType: "PREFIX_MATCH" },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    test("also copies to the pipeline account when requested", () => {
+      new EcrConstruct(regionalStack, "TestEcr", {
+        repositoryName: "test-repo",
+        pipelineAccount: "444444444444",
+        replication: {
+          recoveryRegion: "eu-central-1",
+          replicateToPipelineAccount: true,
+        },
+      });
+
+      const template = Template.fromStack(regionalStack);
+
+      const replication = Object.values(
+        template.findResources("AWS::ECR::ReplicationConfiguration")
+      )[0];
+      expect(
+        replication.Properties.ReplicationConfiguration.Rules[0].Destinations
+      ).toEqual([
+        { Region: "eu-central-1", RegistryId: "111111111111" },
+        { Region: "eu-west-1", RegistryId: "444444444444" },
+      ]);
+    });
+
+    test("does not replicate by default", () => {
+      new EcrConstruct(regionalStack, "TestEcr", {
+        repositoryName: "test-repo",
+      });
+
+      const template = Template.fromStack(regionalStack);
+
+      template.resourceCountIs("AWS::ECR::ReplicationConfiguration", 0);
+    });
+
+    test("throws when the recovery region is the repository region", () => {
+      expect(() => {
+        new EcrConstruct(regionalStack, "TestEcr", {
+          repositoryName: "test-repo",
+          replication: { recoveryRegion: "eu-west-1" },
+        });
+      }).toThrow(/recovery region must differ/);
+    });
+
+    test("throws when replicating to a missing pipeline account", () => {
+      expect(() => {
+        new EcrConstruct(regionalStack, "TestEcr", {
+          repositoryName: "test-repo",
+          replication: {
+            recoveryRegion: "eu-central-1",
+            replicateToPipelineAccount: true,
+          },
+        });
+      }).toThrow(/pipelineAccount is required/);
+    });
+  });
 });
@@ -0,0 +1,109 @@
+/** @format */
+
+import * as ecr from "aws-cdk-lib/aws-ecr";
+import { ecrLifecycleRules } from "../../lib/constructs/storage/ecr-lifecycle-policy";
+
+describe("ECR Lifecycle Policy", () => {
+  describe("Default Rules", () => {
+    const rules = ecrLifecycleRules();
+
+    test("numbers rules in order with the catch-all rule last", () => {
+      expect(rules.map((rule) => rule.rulePriority)).toEqual([1, 2, 3, 4, 5]);
+      expect(rules[rules.length - 1]).toMatchObject({
+        tagStatus: ecr.TagStatus.ANY,
+        maxImageCount: 10,
+      });
+    });
+
+    test("expires pull request images after 3 days", () => {
+      expect(rules[0]).toMatchObject({
+        tagStatus: ecr.TagStatus.TAGGED,
+        tagPrefixList: ["pr-"],
+      });
+      expect(rules[0].maxImageAge?.toDays()).toBe(3);
+    });
+
+    test("keeps the last 10 images per release prefix", () => {
+      expect(rules.slice(1, 3)).toEqual([
+        expect.objectContaining({ tagPrefixList: ["v"], maxImageCount: 10 }),
+        expect.objectContaining({ tagPrefixList: ["sha-"], maxImageCount: 10 }),
+      ]);
+    });
+
+    test("expires untagged images after 7 days", () => {
+      expect(rules[3].tagStatus).toBe(ecr.TagStatus.UNTAGGED);
+      expect(rules[3].maxImageAge?.toDays()).toBe(7);
+    });
+  });
+
+  describe("Protected Tags", () => {
+    test("come before every rule that could expire them", () => {
+      const rules = ecrLifecycleRules({
+        protectedTags: ["sha-abc1234", "v1.2.0"],
+      });
+
+      expect(rules.slice(0, 2)).toEqual([
+        expect.objectContaining({
+          rulePriority: 1,
+          tagPatternList: ["sha-abc1234"],
+          maxImageCount: 1,
+        }),
+        expect.objectContaining({
+          rulePriority: 2,
+          tagPatternList: ["v1.2.0"],
+          maxImageCount: 1,
+        }),
+      ]);
+    });
+
+    test.each(["sha-*", "release:1", ""])("rejects tag %p", (tag) => {
+      expect(() => ecrLifecycleRules({ protectedTags: [tag] })).toThrow(
+        /is not a valid ECR image tag/
+      );
+    });
+  });
+
+  describe("Custom Rules", () => {
+    test("uses the configured prefixes, counts and ages", () => {
+      const rules = ecrLifecycleRules({
+        releaseTagPrefixes: ["release-"],
+        maxReleaseImages: 20,
+        pullRequestTagPrefixes: ["pr-", "branch-"],
+        pullRequestImageAgeDays: 1,
+        untaggedImageAgeDays: 2,
+        maxOtherImages: 3,
+      });
+
+      expect(rules.map((rule) => rule.tagPrefixList)).toEqual([
+        ["pr-"],
+        ["branch-"],
+        ["release-"],
+        undefined,
+        undefined,
+      ]);
+      expect(rules[1].maxImageAge?.toDays()).toBe(1);
+      expect(rules[2].maxImageCount).toBe(20);
+      expect(rules[3].maxImageAge?.toDays()).toBe(2);
+      expect(rules[4].maxImageCount).toBe(3);
+    });
+
+    test("rejects release prefixes that overlap pull request prefixes", () => {
+      expect(() =>
+        ecrLifecycleRules({
+          releaseTagPrefixes: ["pr-release-"],
+        })
+      ).toThrow(/overlap pull request prefixes \(pr-release-\)/);
+    });
+
+    test.each([
+      ["maxReleaseImages", 0],
+      ["maxOtherImages", 1.5],
+      ["untaggedImageAgeDays", -1],
+      ["pullRequestImageAgeDays", 0],
+    ])("rejects %s of %p", (name, value) => {
+      expect(() => ecrLifecycleRules({ [name]: value })).toThrow(
+        new RegExp(`${name} must be a positive integer`)
+      );
+    });
+  });
+});
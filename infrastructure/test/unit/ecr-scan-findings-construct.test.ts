@@ -0,0 +1,114 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as sns from "aws-cdk-lib/aws-sns";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { EcrScanFindingsConstruct } from "../../lib/constructs/monitoring/ecr-scan-findings-construct";
+
+describe("EcrScanFindingsConstruct", () => {
+  let stack: cdk.Stack;
+  let template: Template;
+  let scanFindings: EcrScanFindingsConstruct;
+
+  beforeEach(() => {
+    const app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack", {
+      env: { account: "123456789012", region: "eu-west-1" },
+    });
+    const alarmTopic = new sns.Topic(stack, "AlarmTopic");
+    scanFindings = new EcrScanFindingsConstruct(stack, "ScanFindings", {
+      envName: "test",
+      repositoryName: "app-repo-test",
+      alarmTopic,
+    });
+    template = Template.fromStack(stack);
+  });
+
+  const rule = (name: string) =>
+    Object.values(template.findResources("AWS::Events::Rule")).find(
+      (candidate) => candidate.Properties.Name === name
+    )?.Properties;
+
+  test("matches basic and enhanced scans of the repository", () => {
+    const pattern = rule("ecr-scan-complete-test").EventPattern;
+
+    expect(pattern.source).toEqual(["aws.ecr", "aws.inspector2"]);
+    expect(pattern["detail-type"]).toEqual([
+      "ECR Image Scan",
+      "Inspector2 Scan",
+    ]);
+    expect(pattern.detail["scan-status"]).toEqual([
+      "COMPLETE",
+      "INITIAL_SCAN_COMPLETE",
+    ]);
+
+    // Basic scans name the repository, Inspector gives its ARN
+    const [name, arn] = pattern.detail["repository-name"];
+    expect(name).toBe("app-repo-test");
+    expect(JSON.stringify(arn)).toContain(
+      ":ecr:eu-west-1:123456789012:repository/app-repo-test"
+    );
+  });
+
+  test("logs every completed scan", () => {
+    template.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "/aws/events/ecr-scan-findings-test",
+      RetentionInDays: 30,
+    });
+    expect(rule("ecr-scan-complete-test").Targets).toHaveLength(1);
+    expect(
+      JSON.stringify(rule("ecr-scan-complete-test").Targets[0].Arn)
+    ).toContain("ScanLogGroup");
+  });
+
+  test("publishes the findings count of each scan", () => {
+    for (const [severity, metricName] of [
+      ["CRITICAL", "CriticalFindings"],
+      ["HIGH", "HighFindings"],
+    ]) {
+      template.hasResourceProperties("AWS::Logs::MetricFilter", {
+        FilterPattern: `{ $.detail.finding-severity-counts.${severity} >= 0 }`,
+        MetricTransformations: [
+          {
+            MetricNamespace: "ECR/ScanFindings",
+            MetricName: metricName,
+            MetricValue: `$.detail.finding-severity-counts.${severity}`,
+            DefaultValue: 0,
+          },
+        ],
+      });
+    }
+    expect(scanFindings.criticalFindingsMetric.metricName).toBe(
+      "CriticalFindings"
+    );
+  });
+
+  test("alerts on CRITICAL or HIGH findings only", () => {
+    expect(rule("ecr-scan-findings-test").EventPattern.detail.$or).toEqual([
+      { "finding-severity-counts": { CRITICAL: [{ numeric: [">", 0] }] } },
+      { "finding-severity-counts": { HIGH: [{ numeric: [">", 0] }] } },
+    ]);
+  });
+
+  test("sends a summary to the alarm topic", () => {
+    template.hasResourceProperties("AWS::Events::Rule", {
+      Name: "ecr-scan-findings-test",
+      Targets: [
+        Match.objectLike({
+          Arn: { Ref: Match.stringLikeRegexp("AlarmTopic") },
+          InputTransformer: {
+            InputPathsMap: Match.objectLike({
+              "detail-repository-name": "$.detail.repository-name",
+              "detail-image-digest": "$.detail.image-digest",
+              "detail-finding-severity-counts-CRITICAL":
+                "$.detail.finding-severity-counts.CRITICAL",
+            }),
+            InputTemplate: Match.stringLikeRegexp(
+              "Critical: <detail-finding-severity-counts-CRITICAL> High: <detail-finding-severity-counts-HIGH>"
+            ),
+          },
+        }),
+      ],
+    });
+  });
+});
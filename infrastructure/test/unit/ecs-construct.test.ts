@@ -106,6 +106,50 @@ describe("EcsConstruct", () => {
       });
     });
 
+    test("runs instances in private subnets without public IPs", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+      });
+      const template = Template.fromStack(stack);
+      const privateSubnetIds = vpc.privateSubnets.map((subnet) =>
+        stack.resolve(subnet.subnetId)
+      );
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        AssociatePublicIpAddress: false,
+      });
+      template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+        VPCZoneIdentifier: privateSubnetIds,
+      });
+    });
+
+    test("runs Spot instances in private subnets without public IPs", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+        spotCapacity: { instanceTypes: [new ec2.InstanceType("t3.micro")] },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::LaunchTemplate", {
+        LaunchTemplateData: Match.objectLike({
+          NetworkInterfaces: [
+            Match.objectLike({ AssociatePublicIpAddress: false }),
+          ],
+        }),
+      });
+      template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+        VPCZoneIdentifier: vpc.privateSubnets.map((subnet) =>
+          stack.resolve(subnet.subnetId)
+        ),
+      });
+    });
+
     test("has correct capacity configuration", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
@@ -135,6 +179,223 @@ describe("EcsConstruct", () => {
     });
   });
 
+  describe("Instance Hardening", () => {
+    const amiParameters = () =>
+      Object.values(Template.fromStack(stack).findParameters("*")).map(
+        (parameter) => parameter.Default
+      );
+
+    test("requires IMDSv2 with hop limit 1 by default", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        MetadataOptions: {
+          HttpTokens: "required",
+          HttpPutResponseHopLimit: 1,
+        },
+      });
+    });
+
+    test("respects custom hop limit", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        imdsHopLimit: 2,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        MetadataOptions: Match.objectLike({ HttpPutResponseHopLimit: 2 }),
+      });
+    });
+
+    test("encrypts gp3 root volume", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        BlockDeviceMappings: [
+          {
+            DeviceName: "/dev/xvda",
+            Ebs: { Encrypted: true, VolumeSize: 30, VolumeType: "gp3" },
+          },
+        ],
+      });
+    });
+
+    test("respects custom root volume size", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        rootVolumeSizeGiB: 50,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        BlockDeviceMappings: [
+          Match.objectLike({ Ebs: Match.objectLike({ VolumeSize: 50 }) }),
+        ],
+      });
+    });
+
+    test("hardens launch templates the same way", () => {
+      app = new cdk.App({
+        context: {
+          "@aws-cdk/aws-autoscaling:generateLaunchTemplateInsteadOfLaunchConfig":
+            true,
+        },
+      });
+      stack = new cdk.Stack(app, "TestStack");
+      vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2 });
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::LaunchTemplate", {
+        LaunchTemplateData: Match.objectLike({
+          MetadataOptions: {
+            HttpTokens: "required",
+            HttpPutResponseHopLimit: 1,
+          },
+          BlockDeviceMappings: [
+            {
+              DeviceName: "/dev/xvda",
+              Ebs: { Encrypted: true, VolumeSize: 30, VolumeType: "gp3" },
+            },
+          ],
+        }),
+      });
+    });
+
+    test("hardens capacity provider instances", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        MetadataOptions: {
+          HttpTokens: "required",
+          HttpPutResponseHopLimit: 1,
+        },
+        BlockDeviceMappings: [
+          Match.objectLike({ Ebs: Match.objectLike({ Encrypted: true }) }),
+        ],
+      });
+    });
+
+    test("uses ECS-optimized AL2023 image", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        amiType: "AL2023",
+      });
+
+      expect(amiParameters()).toContainEqual(
+        expect.stringMatching(/ecs\/optimized-ami\/amazon-linux-2023\//)
+      );
+    });
+
+    test("uses Graviton instance type for ARM64 images", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        amiType: "AL2023_ARM64",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        InstanceType: "t4g.micro",
+      });
+      expect(amiParameters()).toContainEqual(
+        expect.stringMatching(/amazon-linux-2023\/arm64\//)
+      );
+    });
+
+    test("uses Bottlerocket data volume", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        amiType: "BOTTLEROCKET",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(amiParameters()).toContainEqual(
+        expect.stringMatching(/bottlerocket\/aws-ecs-.*\/x86_64\//)
+      );
+      template.hasResourceProperties("AWS::AutoScaling::LaunchConfiguration", {
+        BlockDeviceMappings: [
+          {
+            DeviceName: "/dev/xvda",
+            Ebs: { Encrypted: true, VolumeSize: 8, VolumeType: "gp3" },
+          },
+          {
+            DeviceName: "/dev/xvdb",
+            Ebs: { Encrypted: true, VolumeSize: 20, VolumeType: "gp3" },
+          },
+        ],
+      });
+    });
+
+    test("encrypts both Bottlerocket volumes on Spot instances", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        amiType: "BOTTLEROCKET",
+        spotCapacity: { instanceTypes: [new ec2.InstanceType("t3.micro")] },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::LaunchTemplate", {
+        LaunchTemplateData: Match.objectLike({
+          BlockDeviceMappings: [
+            {
+              DeviceName: "/dev/xvda",
+              Ebs: { Encrypted: true, VolumeSize: 8, VolumeType: "gp3" },
+            },
+            {
+              DeviceName: "/dev/xvdb",
+              Ebs: { Encrypted: true, VolumeSize: 20, VolumeType: "gp3" },
+            },
+          ],
+        }),
+      });
+    });
+
+    test("throws when instance type doesn't match the image", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          instanceType: new ec2.InstanceType("t3.micro"),
+          amiType: "BOTTLEROCKET_ARM64",
+        });
+      }).toThrow(/does not match the BOTTLEROCKET_ARM64 image/);
+    });
+  });
+
   describe("Task Definition", () => {
     test("creates EC2 task definition", () => {
       new EcsConstruct(stack, "TestEcs", {
@@ -312,127 +573,827 @@ describe("EcsConstruct", () => {
         ]),
       });
     });
-  });
 
-  describe("ECS Service", () => {
-    test("creates ECS service", () => {
+    test("passes plain environment variables to the container", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        environment: { NEXT_PUBLIC_SITE_URL: "https://dev.example.com" },
       });
       const template = Template.fromStack(stack);
 
-      template.resourceCountIs("AWS::ECS::Service", 1);
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            Environment: [
+              {
+                Name: "NEXT_PUBLIC_SITE_URL",
+                Value: "https://dev.example.com",
+              },
+            ],
+          }),
+        ]),
+      });
     });
+  });
 
-    test("service has environment-specific name", () => {
+  describe("Container Secrets", () => {
+    const secretArn =
+      "arn:aws:secretsmanager:eu-west-1:123456789012:secret:app/api-key-AbCdEf";
+
+    test("injects Secrets Manager secrets by ARN", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
-        envName: "staging",
+        envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        secrets: {
+          API_KEY: { source: "SECRETS_MANAGER", name: secretArn },
+          DB_PASSWORD: {
+            source: "SECRETS_MANAGER",
+            name: secretArn,
+            jsonKey: "password",
+          },
+        },
       });
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties("AWS::ECS::Service", {
-        ServiceName: "ecs-service-staging",
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            Secrets: [
+              { Name: "API_KEY", ValueFrom: secretArn },
+              { Name: "DB_PASSWORD", ValueFrom: `${secretArn}:password::` },
+            ],
+          }),
+        ]),
       });
     });
 
-    test("service has correct desired count", () => {
+    test("injects SSM SecureString parameters by name", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
-        desiredCapacity: 2,
+        secrets: {
+          API_KEY: { source: "SSM_PARAMETER", name: "/app/test/api-key" },
+        },
       });
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties("AWS::ECS::Service", {
-        DesiredCount: 2,
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            Secrets: [
+              {
+                Name: "API_KEY",
+                ValueFrom: {
+                  "Fn::Join": [
+                    "",
+                    Match.arrayWith([
+                      Match.stringLikeRegexp(":parameter/app/test/api-key"),
+                    ]),
+                  ],
+                },
+              },
+            ],
+          }),
+        ]),
       });
     });
 
-    test("service has circuit breaker enabled for automatic rollback", () => {
-      new EcsConstruct(stack, "TestEcs", {
+    test("grants the execution role only the referenced secrets", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        secrets: {
+          API_KEY: { source: "SECRETS_MANAGER", name: secretArn },
+          TOKEN: { source: "SSM_PARAMETER", name: "/app/test/token" },
+        },
       });
       const template = Template.fromStack(stack);
+      const executionRoleId = stack.getLogicalId(
+        ecsConstruct.taskDefinition.executionRole!.node
+          .defaultChild as cdk.CfnElement
+      );
 
-      template.hasResourceProperties("AWS::ECS::Service", {
-        DeploymentConfiguration: Match.objectLike({
-          DeploymentCircuitBreaker: {
-            Enable: false,
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        Roles: [{ Ref: executionRoleId }],
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: [
+                "secretsmanager:GetSecretValue",
+                "secretsmanager:DescribeSecret",
+              ],
+              Resource: secretArn,
+            }),
+            Match.objectLike({
+              Action: Match.arrayWith(["ssm:GetParameters"]),
+              Resource: {
+                "Fn::Join": [
+                  "",
+                  Match.arrayWith([
+                    Match.stringLikeRegexp(":parameter/app/test/token"),
+                  ]),
+                ],
+              },
+            }),
+          ]),
+        },
+      });
+    });
+
+    test("throws when a name is both an env var and a secret", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          environment: { API_KEY: "plain" },
+          secrets: {
+            API_KEY: { source: "SECRETS_MANAGER", name: secretArn },
           },
-        }),
+        });
+      }).toThrow(/API_KEY is defined as both/);
+    });
+
+    test("throws for jsonKey on SSM parameters", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          secrets: {
+            API_KEY: {
+              source: "SSM_PARAMETER",
+              name: "/app/test/api-key",
+              jsonKey: "value",
+            },
+          },
+        });
+      }).toThrow(/jsonKey is only supported for Secrets Manager/);
+    });
+  });
+
+  describe("Container Health and Shutdown", () => {
+    test("has no container health check by default", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
+          Match.objectLike({
+            HealthCheck: Match.absent(),
+            StopTimeout: Match.absent(),
+          }),
+        ],
       });
     });
 
-    test("service has correct deployment configuration for initial deployment", () => {
+    test("mirrors the Dockerfile health check", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        containerPort: 3000,
+        containerHealthCheck: {},
       });
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties("AWS::ECS::Service", {
-        DeploymentConfiguration: Match.objectLike({
-          MinimumHealthyPercent: 0, // Allows all tasks to be stopped for initial deployment
-          MaximumPercent: 200,
-        }),
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
+          Match.objectLike({
+            HealthCheck: {
+              Command: [
+                "CMD-SHELL",
+                Match.stringLikeRegexp(
+                  "process.env.PORT \\|\\| 3000.*/api/health"
+                ),
+              ],
+              Interval: 30,
+              Timeout: 3,
+              StartPeriod: 5,
+              Retries: 3,
+            },
+          }),
+        ],
       });
     });
 
-    test("exposes service as public property", () => {
-      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+    test("respects custom health check settings", () => {
+      new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        containerHealthCheck: {
+          path: "/healthz",
+          interval: cdk.Duration.seconds(15),
+          timeout: cdk.Duration.seconds(5),
+          startPeriod: cdk.Duration.seconds(60),
+          retries: 5,
+        },
       });
+      const template = Template.fromStack(stack);
 
-      expect(ecsConstruct.service).toBeDefined();
-      expect(ecsConstruct.service.serviceName).toBeDefined();
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
+          Match.objectLike({
+            HealthCheck: {
+              Command: ["CMD-SHELL", Match.stringLikeRegexp("/healthz")],
+              Interval: 15,
+              Timeout: 5,
+              StartPeriod: 60,
+              Retries: 5,
+            },
+          }),
+        ],
+      });
     });
-  });
 
-  describe("Environment Tagging", () => {
-    test("tags cluster with environment", () => {
+    test("accepts a custom health check command", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
-        envName: "production",
+        envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        containerHealthCheck: {
+          command: ["CMD", "/bin/healthcheck"],
+        },
       });
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties("AWS::ECS::Cluster", {
-        Tags: Match.arrayWith([
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
           Match.objectLike({
-            Key: "Environment",
-            Value: "production",
+            HealthCheck: Match.objectLike({
+              Command: ["CMD", "/bin/healthcheck"],
+            }),
           }),
-        ]),
+        ],
       });
     });
 
-    test("tags resources with ManagedBy CDK", () => {
+    test("sets stop timeout and ulimits", () => {
       new EcsConstruct(stack, "TestEcs", {
         vpc,
         envName: "test",
         containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        stopTimeout: cdk.Duration.seconds(30),
+        ulimits: [
+          {
+            name: ecs.UlimitName.NOFILE,
+            softLimit: 65536,
+            hardLimit: 65536,
+          },
+        ],
       });
       const template = Template.fromStack(stack);
 
-      template.hasResourceProperties("AWS::ECS::Cluster", {
-        Tags: Match.arrayWith([
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [
           Match.objectLike({
-            Key: "ManagedBy",
-            Value: "CDK",
+            StopTimeout: 30,
+            Ulimits: [{ Name: "nofile", SoftLimit: 65536, HardLimit: 65536 }],
           }),
-        ]),
+        ],
+      });
+    });
+
+    test.each(["FARGATE", "FARGATE_SPOT", "MIXED"] as const)(
+      "throws when stop timeout exceeds 120 seconds on %s",
+      (launchMode) => {
+        expect(() => {
+          new EcsConstruct(stack, "TestEcs", {
+            vpc,
+            envName: "test",
+            containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+            launchMode,
+            stopTimeout: cdk.Duration.minutes(5),
+          });
+        }).toThrow(/stopTimeout must be at most 120 seconds on Fargate/);
+      }
+    );
+
+    test("allows longer stop timeouts on EC2", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        stopTimeout: cdk.Duration.minutes(5),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: [Match.objectLike({ StopTimeout: 300 })],
       });
     });
   });
+
+  describe("ECS Service", () => {
+    test("creates ECS service", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::ECS::Service", 1);
+    });
+
+    test("service has environment-specific name", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "staging",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        ServiceName: "ecs-service-staging",
+      });
+    });
+
+    test("service has correct desired count", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        desiredCapacity: 2,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        DesiredCount: 2,
+      });
+    });
+
+    test("service has circuit breaker enabled for automatic rollback", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        DeploymentConfiguration: Match.objectLike({
+          DeploymentCircuitBreaker: {
+            Enable: true,
+            Rollback: true,
+          },
+        }),
+      });
+    });
+
+    test("service keeps all tasks healthy during rolling deployments", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        DeploymentConfiguration: Match.objectLike({
+          MinimumHealthyPercent: 100, // Old tasks stop only once new ones are healthy
+          MaximumPercent: 200,
+        }),
+      });
+    });
+
+    test("exposes service as public property", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+
+      expect(ecsConstruct.service).toBeDefined();
+      expect(ecsConstruct.service.serviceName).toBeDefined();
+    });
+  });
+
+  describe("Deployment Strategy", () => {
+    test("rolling deployments roll back on alarms when provided", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        deploymentAlarmNames: ["test-ecs-high-cpu", "test-ecs-high-memory"],
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        DeploymentConfiguration: Match.objectLike({
+          Alarms: {
+            AlarmNames: ["test-ecs-high-cpu", "test-ecs-high-memory"],
+            Enable: true,
+            Rollback: true,
+          },
+        }),
+      });
+    });
+
+    test("blue/green uses the CodeDeploy deployment controller", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        deploymentStrategy: "BLUE_GREEN",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        DeploymentController: { Type: "CODE_DEPLOY" },
+      });
+    });
+
+    test("blue/green leaves rollback to CodeDeploy", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        deploymentStrategy: "BLUE_GREEN",
+        deploymentAlarmNames: ["test-ecs-high-cpu"],
+      });
+      const template = Template.fromStack(stack);
+
+      const services = template.findResources("AWS::ECS::Service");
+      const service = Object.values(services)[0];
+      const deploymentConfiguration =
+        service.Properties.DeploymentConfiguration || {};
+
+      expect(deploymentConfiguration.DeploymentCircuitBreaker).toBeUndefined();
+      expect(deploymentConfiguration.Alarms).toBeUndefined();
+    });
+  });
+
+  describe("ECS Exec", () => {
+    test("is disabled by default", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      expect(ecsConstruct.execKey).toBeUndefined();
+      template.resourceCountIs("AWS::KMS::Key", 0);
+      template.hasResourceProperties("AWS::ECS::Service", {
+        EnableExecuteCommand: Match.absent(),
+      });
+    });
+
+    test("enables execute command on the service", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableExec: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        EnableExecuteCommand: true,
+      });
+    });
+
+    test("encrypts and logs exec sessions", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableExec: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::KMS::Key", {
+        EnableKeyRotation: true,
+      });
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/ecs/test/exec",
+        KmsKeyId: Match.anyValue(),
+        RetentionInDays: 30,
+      });
+      template.hasResourceProperties("AWS::ECS::Cluster", {
+        Configuration: {
+          ExecuteCommandConfiguration: {
+            KmsKeyId: Match.anyValue(),
+            Logging: "OVERRIDE",
+            LogConfiguration: {
+              CloudWatchLogGroupName: Match.anyValue(),
+              CloudWatchEncryptionEnabled: true,
+            },
+          },
+        },
+      });
+    });
+
+    test("attaches Session Manager policy to the instances", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableExec: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::IAM::Role", {
+        ManagedPolicyArns: Match.arrayWith([
+          {
+            "Fn::Join": [
+              "",
+              [
+                "arn:",
+                { Ref: "AWS::Partition" },
+                ":iam::aws:policy/AmazonSSMManagedInstanceCore",
+              ],
+            ],
+          },
+        ]),
+      });
+    });
+
+    test("opens no inbound ports on the instances", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableExec: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::SecurityGroupIngress", 0);
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        SecurityGroupIngress: Match.absent(),
+      });
+    });
+
+    test("works with Fargate tasks", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+        enableExec: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        EnableExecuteCommand: true,
+      });
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: Match.arrayWith(["ssmmessages:CreateControlChannel"]),
+            }),
+          ]),
+        },
+      });
+    });
+  });
+
+  describe("Environment Tagging", () => {
+    test("tags cluster with environment", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "production",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Cluster", {
+        Tags: Match.arrayWith([
+          Match.objectLike({
+            Key: "Environment",
+            Value: "production",
+          }),
+        ]),
+      });
+    });
+
+    test("tags resources with ManagedBy CDK", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Cluster", {
+        Tags: Match.arrayWith([
+          Match.objectLike({
+            Key: "ManagedBy",
+            Value: "CDK",
+          }),
+        ]),
+      });
+    });
+  });
+
+  describe("Launch Modes", () => {
+    test("defaults to EC2 launch type with an auto scaling group", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "EC2",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(ecsConstruct.asg).toBeDefined();
+      template.hasResourceProperties("AWS::ECS::Service", {
+        LaunchType: "EC2",
+      });
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        NetworkMode: "bridge",
+        RequiresCompatibilities: ["EC2"],
+      });
+    });
+
+    test("FARGATE creates no EC2 capacity", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(ecsConstruct.asg).toBeUndefined();
+      template.resourceCountIs("AWS::AutoScaling::AutoScalingGroup", 0);
+      template.hasResourceProperties("AWS::ECS::Service", {
+        LaunchType: "FARGATE",
+        NetworkConfiguration: {
+          AwsvpcConfiguration: Match.objectLike({
+            AssignPublicIp: "ENABLED",
+          }),
+        },
+      });
+    });
+
+    test("FARGATE tasks in private subnets get no public IP", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        NetworkConfiguration: {
+          AwsvpcConfiguration: Match.objectLike({
+            AssignPublicIp: "DISABLED",
+            Subnets: vpc.privateSubnets.map((subnet) =>
+              stack.resolve(subnet.subnetId)
+            ),
+          }),
+        },
+      });
+    });
+
+    test("FARGATE uses awsvpc networking with task-level sizes", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+        memoryReservationMiB: 384,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        NetworkMode: "awsvpc",
+        RequiresCompatibilities: ["FARGATE"],
+        Cpu: "256",
+        Memory: "512",
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            MemoryReservation: 384,
+          }),
+        ]),
+      });
+    });
+
+    test("FARGATE rounds CPU and memory up to a valid task size", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+        cpu: 300,
+        memoryLimitMiB: 1500,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        Cpu: "512",
+        Memory: "2048",
+      });
+    });
+
+    test("FARGATE maps container port without dynamic host port", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE",
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+        ContainerDefinitions: Match.arrayWith([
+          Match.objectLike({
+            PortMappings: [
+              Match.objectLike({
+                ContainerPort: 3000,
+                HostPort: Match.absent(), // awsvpc uses the container port
+              }),
+            ],
+          }),
+        ]),
+      });
+    });
+
+    test("FARGATE_SPOT places all tasks on Fargate Spot", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE_SPOT",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        LaunchType: Match.absent(),
+        CapacityProviderStrategy: [
+          { CapacityProvider: "FARGATE_SPOT", Weight: 1 },
+        ],
+      });
+      template.hasResourceProperties(
+        "AWS::ECS::ClusterCapacityProviderAssociations",
+        {
+          CapacityProviders: Match.arrayWith(["FARGATE", "FARGATE_SPOT"]),
+        }
+      );
+    });
+
+    test("MIXED keeps a Fargate base and weights the rest to Spot", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "MIXED",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        CapacityProviderStrategy: [
+          { CapacityProvider: "FARGATE", Base: 1, Weight: 1 },
+          { CapacityProvider: "FARGATE_SPOT", Weight: 3 },
+        ],
+      });
+    });
+
+    test("MIXED respects custom base and Spot weight", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "MIXED",
+        fargateBaseTasks: 2,
+        fargateSpotWeight: 1,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        CapacityProviderStrategy: [
+          { CapacityProvider: "FARGATE", Base: 2, Weight: 1 },
+          { CapacityProvider: "FARGATE_SPOT", Weight: 1 },
+        ],
+      });
+    });
+
+    test("throws when no Fargate task size fits", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          launchMode: "FARGATE",
+          memoryLimitMiB: 65536,
+        });
+      }).toThrow(/No Fargate task size fits/);
+    });
+  });
 });
@@ -424,4 +424,496 @@ describe("ECS Service - Detailed Tests", () => {
       template.resourceCountIs("AWS::ECS::Service", 2);
     });
   });
+
+  describe("Service Auto Scaling", () => {
+    test("does not register scalable target by default", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        0
+      );
+    });
+
+    test("registers scalable target with task bounds", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        autoScaling: { minTasks: 1, maxTasks: 4 },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        {
+          MinCapacity: 1,
+          MaxCapacity: 4,
+          ScalableDimension: "ecs:service:DesiredCount",
+          ServiceNamespace: "ecs",
+        }
+      );
+    });
+
+    test("tracks CPU and memory with default targets", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        autoScaling: { minTasks: 1, maxTasks: 4 },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalingPolicy",
+        {
+          PolicyType: "TargetTrackingScaling",
+          TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+            PredefinedMetricSpecification: {
+              PredefinedMetricType: "ECSServiceAverageCPUUtilization",
+            },
+            TargetValue: 70,
+          }),
+        }
+      );
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalingPolicy",
+        {
+          TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+            PredefinedMetricSpecification: {
+              PredefinedMetricType: "ECSServiceAverageMemoryUtilization",
+            },
+            TargetValue: 80,
+          }),
+        }
+      );
+    });
+
+    test("respects custom CPU target", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        autoScaling: { minTasks: 1, maxTasks: 4, targetCpuPercent: 50 },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalingPolicy",
+        {
+          TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+            PredefinedMetricSpecification: {
+              PredefinedMetricType: "ECSServiceAverageCPUUtilization",
+            },
+            TargetValue: 50,
+          }),
+        }
+      );
+    });
+
+    test("exposes scalable task count", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        autoScaling: { minTasks: 1, maxTasks: 4 },
+      });
+
+      expect(ecsConstruct.scalableTaskCount).toBeDefined();
+    });
+  });
+
+  describe("Capacity Provider", () => {
+    test("does not create capacity provider by default", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::ECS::CapacityProvider", 0);
+    });
+
+    test("creates capacity provider with managed scaling", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::CapacityProvider", {
+        Name: "asg-cp-test",
+        AutoScalingGroupProvider: Match.objectLike({
+          ManagedScaling: Match.objectLike({
+            Status: "ENABLED",
+            TargetCapacity: 100,
+          }),
+          ManagedTerminationProtection: "DISABLED",
+        }),
+      });
+    });
+
+    test("associates capacity provider with the cluster", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs(
+        "AWS::ECS::ClusterCapacityProviderAssociations",
+        1
+      );
+    });
+
+    test("service uses capacity provider strategy instead of launch type", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        LaunchType: Match.absent(),
+        CapacityProviderStrategy: [
+          Match.objectLike({
+            CapacityProvider: Match.anyValue(),
+            Weight: 1,
+          }),
+        ],
+      });
+    });
+
+    test("leaves ASG desired capacity to managed scaling", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+        minCapacity: 1,
+        maxCapacity: 3,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+        MinSize: "1",
+        MaxSize: "3",
+        DesiredCapacity: Match.absent(),
+      });
+    });
+  });
+
+  describe("Spot Capacity", () => {
+    const spotCapacity = {
+      instanceTypes: [
+        new ec2.InstanceType("t3.micro"),
+        new ec2.InstanceType("t3a.micro"),
+      ],
+    };
+
+    test("creates mixed instances policy across instance types", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        spotCapacity,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+        CapacityRebalance: true,
+        MixedInstancesPolicy: {
+          InstancesDistribution: {
+            OnDemandBaseCapacity: 0,
+            OnDemandPercentageAboveBaseCapacity: 0,
+            SpotAllocationStrategy: "price-capacity-optimized",
+          },
+          LaunchTemplate: Match.objectLike({
+            Overrides: [
+              { InstanceType: "t3.micro" },
+              { InstanceType: "t3a.micro" },
+            ],
+          }),
+        },
+      });
+    });
+
+    test("respects on-demand base and percentage", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        spotCapacity: {
+          ...spotCapacity,
+          onDemandBaseCapacity: 1,
+          onDemandPercentageAboveBase: 25,
+        },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+        MixedInstancesPolicy: Match.objectLike({
+          InstancesDistribution: Match.objectLike({
+            OnDemandBaseCapacity: 1,
+            OnDemandPercentageAboveBaseCapacity: 25,
+          }),
+        }),
+      });
+    });
+
+    test("drains Spot instances on interruption", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        spotCapacity,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::CapacityProvider", {
+        AutoScalingGroupProvider: Match.objectLike({
+          ManagedDraining: "ENABLED",
+        }),
+      });
+      template.hasResourceProperties("AWS::EC2::LaunchTemplate", {
+        LaunchTemplateData: Match.objectLike({
+          UserData: {
+            "Fn::Base64": {
+              "Fn::Join": [
+                "",
+                Match.arrayWith([
+                  Match.stringLikeRegexp(
+                    "ECS_ENABLE_SPOT_INSTANCE_DRAINING=true"
+                  ),
+                ]),
+              ],
+            },
+          },
+        }),
+      });
+    });
+
+    test("places tasks through the capacity provider", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        spotCapacity,
+      });
+      const template = Template.fromStack(stack);
+
+      expect(ecsConstruct.capacityProvider).toBeDefined();
+      template.hasResourceProperties("AWS::ECS::Service", {
+        LaunchType: Match.absent(),
+        CapacityProviderStrategy: [
+          Match.objectLike({ CapacityProvider: Match.anyValue() }),
+        ],
+      });
+    });
+
+    test("keeps instance hardening on the launch template", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        spotCapacity,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::LaunchTemplate", {
+        LaunchTemplateData: Match.objectLike({
+          MetadataOptions: Match.objectLike({
+            HttpTokens: "required",
+            HttpPutResponseHopLimit: 1,
+          }),
+          BlockDeviceMappings: [
+            {
+              DeviceName: "/dev/xvda",
+              Ebs: { Encrypted: true, VolumeSize: 30, VolumeType: "gp3" },
+            },
+          ],
+          NetworkInterfaces: [
+            Match.objectLike({ AssociatePublicIpAddress: true }),
+          ],
+        }),
+      });
+    });
+
+    test("throws for Spot instance types of another architecture", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          spotCapacity: {
+            instanceTypes: [new ec2.InstanceType("t4g.micro")],
+          },
+        });
+      }).toThrow(/Spot instance type t4g.micro does not match/);
+    });
+
+    test("throws without instance types", () => {
+      expect(() => {
+        new EcsConstruct(stack, "TestEcs", {
+          vpc,
+          envName: "test",
+          containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+          spotCapacity: { instanceTypes: [] },
+        });
+      }).toThrow(/at least one instance type/);
+    });
+  });
+
+  describe("Scale-to-Zero Schedule", () => {
+    const schedule = {
+      stopAt: { minute: "0", hour: "20", weekDay: "MON-FRI" },
+      startAt: { minute: "0", hour: "7", weekDay: "MON-FRI" },
+      timeZone: cdk.TimeZone.EUROPE_DUBLIN,
+    };
+
+    test("does not schedule scaling by default", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::AutoScaling::ScheduledAction", 0);
+      template.resourceCountIs(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        0
+      );
+    });
+
+    test("stops tasks at night and restores the task bounds", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        autoScaling: { minTasks: 1, maxTasks: 3 },
+        schedule,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        {
+          MinCapacity: 1,
+          MaxCapacity: 3,
+          ScheduledActions: [
+            {
+              ScheduledActionName: Match.stringLikeRegexp("StopTasks"),
+              Schedule: "cron(0 20 ? * MON-FRI *)",
+              Timezone: "Europe/Dublin",
+              ScalableTargetAction: { MinCapacity: 0, MaxCapacity: 0 },
+            },
+            {
+              ScheduledActionName: Match.stringLikeRegexp("StartTasks"),
+              Schedule: "cron(0 7 ? * MON-FRI *)",
+              Timezone: "Europe/Dublin",
+              ScalableTargetAction: { MinCapacity: 1, MaxCapacity: 3 },
+            },
+          ],
+        }
+      );
+    });
+
+    test("creates scalable target from desired count without auto scaling", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        launchMode: "FARGATE_SPOT",
+        desiredCapacity: 2,
+        schedule,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalableTarget",
+        {
+          MinCapacity: 2,
+          MaxCapacity: 2,
+          ScheduledActions: Match.arrayWith([
+            Match.objectLike({
+              ScalableTargetAction: { MinCapacity: 2, MaxCapacity: 2 },
+            }),
+          ]),
+        }
+      );
+      template.resourceCountIs("AWS::ApplicationAutoScaling::ScalingPolicy", 0);
+      template.resourceCountIs("AWS::AutoScaling::ScheduledAction", 0);
+    });
+
+    test("stops and starts the instances", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        minCapacity: 1,
+        maxCapacity: 2,
+        schedule,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::ScheduledAction", {
+        Recurrence: "0 20 * * MON-FRI",
+        TimeZone: "Europe/Dublin",
+        MinSize: 0,
+        MaxSize: 0,
+        DesiredCapacity: 0,
+      });
+      template.hasResourceProperties("AWS::AutoScaling::ScheduledAction", {
+        Recurrence: "0 7 * * MON-FRI",
+        TimeZone: "Europe/Dublin",
+        MinSize: 1,
+        MaxSize: 2,
+        DesiredCapacity: 1,
+      });
+    });
+
+    test("leaves desired instances to the capacity provider", () => {
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        enableCapacityProvider: true,
+        schedule,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::AutoScaling::ScheduledAction", {
+        Recurrence: "0 7 * * MON-FRI",
+        MinSize: 1,
+        MaxSize: 2,
+        DesiredCapacity: Match.absent(),
+      });
+    });
+
+    test("describes the schedule", () => {
+      const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        schedule,
+      });
+
+      expect(ecsConstruct.scheduleDescription).toBe(
+        "stop cron(0 20 ? * MON-FRI *), start cron(0 7 ? * MON-FRI *) (Europe/Dublin)"
+      );
+    });
+  });
 });
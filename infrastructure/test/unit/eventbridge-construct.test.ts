@@ -132,6 +132,34 @@ describe("EventBridgeConstruct", () => {
       });
     });
 
+    test("logs ECR image scans with CRITICAL/HIGH findings", () => {
+      new EventBridgeConstruct(stack, "TestEventBridge", {
+        envName: "pipeline",
+        isPipelineAccount: true,
+        targetAccountIds: ["111111111111"],
+        alarmTopic,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::Events::Rule", {
+        Name: "ecr-image-scan-findings",
+        EventPattern: {
+          source: ["aws.ecr"],
+          "detail-type": ["ECR Image Scan"],
+          detail: {
+            $or: [
+              {
+                "finding-severity-counts": {
+                  CRITICAL: [{ numeric: [">", 0] }],
+                },
+              },
+              { "finding-severity-counts": { HIGH: [{ numeric: [">", 0] }] } },
+            ],
+          },
+        },
+      });
+    });
+
     test("creates Auto Scaling rule", () => {
       new EventBridgeConstruct(stack, "TestEventBridge", {
         envName: "pipeline",
@@ -298,6 +326,7 @@ describe("EventBridgeConstruct", () => {
         Name: "forward-ecr-events-development",
         EventPattern: Match.objectLike({
           source: ["aws.ecr"],
+          "detail-type": ["ECR Image Action", "ECR Image Scan"],
         }),
       });
     });
@@ -0,0 +1,195 @@
+/** @format */
+
+import {
+  cidrRange,
+  cidrsOverlap,
+  validateIpAddressPlans,
+} from "../../lib/constructs/networking/ip-address-plan";
+import { environments } from "../../config/environments";
+
+describe("IP Address Plan", () => {
+  describe("CIDR Parsing", () => {
+    test("returns the first and last address of a block", () => {
+      expect(cidrRange("10.0.0.0/16")).toEqual([167772160, 167837695]);
+      expect(cidrRange("192.168.1.0/24")).toEqual([3232235776, 3232236031]);
+    });
+
+    test.each(["10.0.0.0", "10.0.0/16", "10.0.0.256/24", "10.0.0.0/33"])(
+      "rejects malformed block %s",
+      (cidr) => {
+        expect(() => cidrRange(cidr)).toThrow(/Invalid IPv4 CIDR block/);
+      }
+    );
+
+    test("rejects blocks with host bits set", () => {
+      expect(() => cidrRange("10.0.1.0/16")).toThrow(/host bits set/);
+    });
+  });
+
+  describe("Overlap Detection", () => {
+    test("detects nested and identical blocks", () => {
+      expect(cidrsOverlap("10.0.0.0/16", "10.0.5.0/24")).toBe(true);
+      expect(cidrsOverlap("10.0.0.0/16", "10.0.0.0/16")).toBe(true);
+      expect(cidrsOverlap("10.0.0.0/8", "10.200.0.0/16")).toBe(true);
+    });
+
+    test("allows adjacent blocks", () => {
+      expect(cidrsOverlap("10.0.0.0/16", "10.1.0.0/16")).toBe(false);
+      expect(cidrsOverlap("10.0.0.0/24", "10.0.1.0/24")).toBe(false);
+    });
+  });
+
+  describe("Environment Validation", () => {
+    test("accepts non-overlapping environments", () => {
+      expect(() =>
+        validateIpAddressPlans({
+          development: { vpcCidr: "10.0.0.0/16" },
+          staging: { vpcCidr: "10.1.0.0/16" },
+          production: {
+            vpcCidr: "10.2.0.0/16",
+            reservedRanges: ["172.16.0.0/12"],
+          },
+        })
+      ).not.toThrow();
+    });
+
+    test("throws when two environments overlap", () => {
+      expect(() =>
+        validateIpAddressPlans({
+          staging: { vpcCidr: "10.1.0.0/16" },
+          production: { vpcCidr: "10.0.0.0/8" },
+        })
+      ).toThrow(
+        /10.0.0.0\/8 \(production\) overlaps 10.1.0.0\/16 \(staging\)|10.1.0.0\/16 \(staging\) overlaps 10.0.0.0\/8 \(production\)/
+      );
+    });
+
+    test("throws when a VPC uses a range reserved by another environment", () => {
+      expect(() =>
+        validateIpAddressPlans({
+          staging: { vpcCidr: "10.1.0.0/16" },
+          production: {
+            vpcCidr: "10.2.0.0/16",
+            reservedRanges: ["10.1.128.0/17"],
+          },
+        })
+      ).toThrow(
+        /10.1.0.0\/16 \(staging\) overlaps 10.1.128.0\/17 reserved by production/
+      );
+    });
+
+    describe("Isolated Environments", () => {
+      const staging = {
+        vpcCidr: "10.0.0.0/16",
+        isolated: true,
+        plannedVpcCidr: "10.1.0.0/16",
+      };
+      const production = {
+        vpcCidr: "10.0.0.0/16",
+        isolated: true,
+        plannedVpcCidr: "10.2.0.0/16",
+      };
+
+      test("may overlap each other until they are migrated", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            development: { vpcCidr: "10.3.0.0/16" },
+            staging,
+            production,
+          })
+        ).not.toThrow();
+      });
+
+      test("require the block they migrate to", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            staging: { vpcCidr: "10.0.0.0/16", isolated: true },
+          })
+        ).toThrow(/staging is isolated on 10.0.0.0\/16, plannedVpcCidr/);
+      });
+
+      test("keep other environments off their deployed block", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            development: { vpcCidr: "10.0.0.0/16" },
+            staging,
+          })
+        ).toThrow(
+          /10.0.0.0\/16 \(development\) overlaps 10.0.0.0\/16 \(staging\)/
+        );
+      });
+
+      test("keep other environments off their planned block", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            development: { vpcCidr: "10.1.0.0/16" },
+            staging,
+          })
+        ).toThrow(
+          /10.1.0.0\/16 \(development\) overlaps 10.1.0.0\/16 \(staging\)/
+        );
+      });
+
+      test("can't plan overlapping blocks", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            staging,
+            production: { ...production, plannedVpcCidr: "10.1.0.0/16" },
+          })
+        ).toThrow(
+          /10.1.0.0\/16 \(staging\) overlaps 10.1.0.0\/16 \(production\)/
+        );
+      });
+
+      test("are checked against reserved ranges", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            staging,
+            development: {
+              vpcCidr: "10.3.0.0/16",
+              reservedRanges: ["10.0.128.0/17"],
+            },
+          })
+        ).toThrow(
+          /10.0.0.0\/16 \(staging\) overlaps 10.0.128.0\/17 reserved by development/
+        );
+      });
+
+      test("have their planned block checked against reserved ranges", () => {
+        expect(() =>
+          validateIpAddressPlans({
+            staging,
+            development: {
+              vpcCidr: "10.3.0.0/16",
+              reservedRanges: ["10.1.0.0/24"],
+            },
+          })
+        ).toThrow(
+          /10.1.0.0\/16 \(staging\) overlaps 10.1.0.0\/24 reserved by development/
+        );
+      });
+    });
+
+    test("ignores environments without a plan", () => {
+      expect(() =>
+        validateIpAddressPlans({
+          development: undefined,
+          staging: { vpcCidr: "10.1.0.0/16" },
+        })
+      ).not.toThrow();
+    });
+
+    test("configured environments do not overlap", () => {
+      expect(() =>
+        validateIpAddressPlans(
+          Object.fromEntries(
+            Object.entries(environments).map(([name, env]) => [
+              name,
+              env.ipPlan,
+            ])
+          )
+        )
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,478 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { EcsConstruct } from "../../lib/constructs/compute/ecs-construct";
+import { LoadBalancerConstruct } from "../../lib/constructs/networking/load-balancer-construct";
+
+describe("LoadBalancerConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+  let vpc: ec2.IVpc;
+  let ecsConstruct: EcsConstruct;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+    vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2 });
+    ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+      vpc,
+      envName: "test",
+      containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      containerPort: 3000,
+      healthCheckGracePeriod: cdk.Duration.seconds(60),
+    });
+  });
+
+  describe("Load Balancer", () => {
+    test("creates internet-facing application load balancer", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::ElasticLoadBalancingV2::LoadBalancer", 1);
+      template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::LoadBalancer",
+        {
+          Name: "alb-test",
+          Scheme: "internet-facing",
+          Type: "application",
+        }
+      );
+    });
+
+    test("creates HTTP listener on port 80", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+        Port: 80,
+        Protocol: "HTTP",
+      });
+    });
+
+    test("exposes load balancer, listener and target group", () => {
+      const albConstruct = new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+
+      expect(albConstruct.loadBalancer).toBeDefined();
+      expect(albConstruct.listener).toBeDefined();
+      expect(albConstruct.targetGroup).toBeDefined();
+    });
+  });
+
+  describe("Target Group", () => {
+    test("health checks /api/health by default", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::TargetGroup",
+        {
+          Name: "tg-test",
+          TargetType: "instance",
+          HealthCheckPath: "/api/health",
+          Matcher: { HttpCode: "200" },
+        }
+      );
+    });
+
+    test("respects custom health check path", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        healthCheckPath: "/healthz",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::TargetGroup",
+        {
+          HealthCheckPath: "/healthz",
+        }
+      );
+    });
+
+    test("uses short deregistration delay", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::TargetGroup",
+        {
+          TargetGroupAttributes: Match.arrayWith([
+            {
+              Key: "deregistration_delay.timeout_seconds",
+              Value: "30",
+            },
+          ]),
+        }
+      );
+    });
+  });
+
+  describe("ECS Service Registration", () => {
+    test("registers app container port with the service", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        HealthCheckGracePeriodSeconds: 60,
+        LoadBalancers: [
+          Match.objectLike({
+            ContainerName: "app",
+            ContainerPort: 3000,
+          }),
+        ],
+      });
+    });
+
+    test("allows ephemeral port range from the load balancer to instances", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        IpProtocol: "tcp",
+        FromPort: 32768,
+        ToPort: 65535,
+        SourceSecurityGroupId: Match.anyValue(),
+      });
+    });
+  });
+
+  describe("Capacity Provider Instances", () => {
+    test.each([
+      ["capacity provider", { enableCapacityProvider: true }],
+      [
+        "Spot capacity",
+        {
+          spotCapacity: {
+            instanceTypes: [new ec2.InstanceType("t3.micro")],
+          },
+        },
+      ],
+    ])("opens ephemeral ports to %s instances", (_, capacity) => {
+      const capacityStack = new cdk.Stack(app, "CapacityStack");
+      const capacityVpc = new ec2.Vpc(capacityStack, "TestVpc", { maxAzs: 2 });
+      const capacityEcs = new EcsConstruct(capacityStack, "TestEcs", {
+        vpc: capacityVpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        containerPort: 3000,
+        ...capacity,
+      });
+      new LoadBalancerConstruct(capacityStack, "TestAlb", {
+        vpc: capacityVpc,
+        envName: "test",
+        service: capacityEcs.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(capacityStack);
+
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        IpProtocol: "tcp",
+        FromPort: 32768,
+        ToPort: 65535,
+        SourceSecurityGroupId: Match.anyValue(),
+      });
+    });
+  });
+
+  describe("HTTPS and DNS", () => {
+    let hostedZone: route53.IHostedZone;
+
+    beforeEach(() => {
+      hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, "Zone", {
+        hostedZoneId: "Z0123456789ABC",
+        zoneName: "example.com",
+      });
+    });
+
+    test("creates DNS-validated certificate for the domain", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "dev.example.com",
+        hostedZone,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CertificateManager::Certificate", {
+        DomainName: "dev.example.com",
+        ValidationMethod: "DNS",
+        DomainValidationOptions: [
+          {
+            DomainName: "dev.example.com",
+            HostedZoneId: "Z0123456789ABC",
+          },
+        ],
+      });
+    });
+
+    test("serves traffic on HTTPS listener", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "dev.example.com",
+        hostedZone,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+        Port: 443,
+        Protocol: "HTTPS",
+        Certificates: [{ CertificateArn: Match.anyValue() }],
+        DefaultActions: [Match.objectLike({ Type: "forward" })],
+      });
+    });
+
+    test("redirects HTTP to HTTPS", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "dev.example.com",
+        hostedZone,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+        Port: 80,
+        Protocol: "HTTP",
+        DefaultActions: [
+          Match.objectLike({
+            Type: "redirect",
+            RedirectConfig: Match.objectLike({
+              Protocol: "HTTPS",
+              Port: "443",
+              StatusCode: "HTTP_301",
+            }),
+          }),
+        ],
+      });
+    });
+
+    test("creates alias record for the domain", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "example.com",
+        hostedZone,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "example.com.",
+        Type: "A",
+        AliasTarget: Match.objectLike({
+          DNSName: Match.anyValue(),
+        }),
+      });
+    });
+
+    test("gives a CDN origin its own record and certificate name", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "example.com",
+        hostedZone,
+        originDomainName: "origin.example.com",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CertificateManager::Certificate", {
+        DomainName: "example.com",
+        SubjectAlternativeNames: ["origin.example.com"],
+      });
+      // The domain is left to the CDN
+      template.resourceCountIs("AWS::Route53::RecordSet", 1);
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "origin.example.com.",
+        Type: "A",
+      });
+    });
+
+    test("points the domain alias at another target", () => {
+      const albConstruct = new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "example.com",
+        hostedZone,
+        originDomainName: "origin.example.com",
+      });
+      const aliasRecord = albConstruct.addDomainAlias({
+        bind: () => ({
+          dnsName: "d111111abcdef8.cloudfront.net",
+          hostedZoneId: "Z2FDTNDATAQYW2",
+        }),
+      });
+      const template = Template.fromStack(stack);
+
+      // Same path as the ALB alias, so the record is updated in place
+      expect(aliasRecord.node.path).toBe("TestStack/TestAlb/AliasRecord");
+      template.hasResourceProperties("AWS::Route53::RecordSet", {
+        Name: "example.com.",
+        Type: "A",
+        AliasTarget: {
+          DNSName: "d111111abcdef8.cloudfront.net",
+          HostedZoneId: "Z2FDTNDATAQYW2",
+        },
+      });
+    });
+
+    test("keeps listeners closed when not open to the internet", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        domainName: "example.com",
+        hostedZone,
+        openListeners: false,
+      });
+      const template = Template.fromStack(stack);
+
+      const ingress = Object.values(
+        template.findResources("AWS::EC2::SecurityGroup")
+      ).flatMap((group) => group.Properties.SecurityGroupIngress || []);
+      expect(ingress).not.toContainEqual(
+        expect.objectContaining({ CidrIp: "0.0.0.0/0" })
+      );
+    });
+
+    test("does not create certificate or record without a domain", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::CertificateManager::Certificate", 0);
+      template.resourceCountIs("AWS::Route53::RecordSet", 0);
+    });
+
+    test("throws when domain is set without hosted zone", () => {
+      expect(() => {
+        new LoadBalancerConstruct(stack, "TestAlb", {
+          vpc,
+          envName: "test",
+          service: ecsConstruct.service,
+          containerPort: 3000,
+          domainName: "dev.example.com",
+        });
+      }).toThrow(/hostedZone is required/);
+    });
+  });
+
+  describe("Blue/Green Support", () => {
+    test("does not create green target group by default", () => {
+      const albConstruct = new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      expect(albConstruct.greenTargetGroup).toBeUndefined();
+      template.resourceCountIs("AWS::ElasticLoadBalancingV2::TargetGroup", 1);
+    });
+
+    test("creates green target group matching the blue one", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        enableBlueGreen: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::ElasticLoadBalancingV2::TargetGroup", 2);
+      template.hasResourceProperties(
+        "AWS::ElasticLoadBalancingV2::TargetGroup",
+        {
+          Name: "tg-test-green",
+          TargetType: "instance",
+          HealthCheckPath: "/api/health",
+        }
+      );
+    });
+
+    test("creates test listener that is not open to the internet", () => {
+      new LoadBalancerConstruct(stack, "TestAlb", {
+        vpc,
+        envName: "test",
+        service: ecsConstruct.service,
+        containerPort: 3000,
+        enableBlueGreen: true,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+        Port: 9000,
+        Protocol: "HTTP",
+      });
+
+      const securityGroups = template.findResources("AWS::EC2::SecurityGroup");
+      const openTestPort = Object.values(securityGroups).some((sg) =>
+        (sg.Properties.SecurityGroupIngress || []).some(
+          (rule: { FromPort?: number; CidrIp?: string }) =>
+            rule.FromPort === 9000 && rule.CidrIp === "0.0.0.0/0"
+        )
+      );
+      expect(openTestPort).toBe(false);
+    });
+  });
+});
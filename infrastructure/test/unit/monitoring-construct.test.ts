@@ -3,7 +3,10 @@
 import * as cdk from "aws-cdk-lib";
 import * as logs from "aws-cdk-lib/aws-logs";
 import { Template, Match } from "aws-cdk-lib/assertions";
-import { MonitoringConstruct } from "../../lib/constructs/monitoring/monitoring-construct";
+import {
+  MonitoringConstruct,
+  ecsAlarmNames,
+} from "../../lib/constructs/monitoring/monitoring-construct";
 
 describe("MonitoringConstruct", () => {
   let app: cdk.App;
@@ -185,6 +188,112 @@ describe("MonitoringConstruct", () => {
       });
     });
 
+    test("creates ALB 5xx alarm when load balancer is provided", () => {
+      new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+        loadBalancerFullName: "app/alb-test/1234567890",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: "test-alb-5xx",
+        MetricName: "HTTPCode_Target_5XX_Count",
+        Namespace: "AWS/ApplicationELB",
+        Dimensions: [
+          { Name: "LoadBalancer", Value: "app/alb-test/1234567890" },
+        ],
+        Period: 60,
+        Threshold: 10,
+      });
+    });
+
+    test("does not create ALB 5xx alarm without load balancer", () => {
+      const monitoring = new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(monitoring.http5xxAlarm).toBeUndefined();
+      template.resourceCountIs("AWS::CloudWatch::Alarm", 3);
+    });
+
+    test("creates WAF blocked requests alarm when a web ACL is provided", () => {
+      const monitoring = new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+        webAclName: "web-acl-test",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(monitoring.wafBlockedAlarm).toBeDefined();
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: ecsAlarmNames("test").wafBlocked,
+        MetricName: "BlockedRequests",
+        Namespace: "AWS/WAFV2",
+        Dimensions: Match.arrayWith([
+          { Name: "Rule", Value: "ALL" },
+          { Name: "WebACL", Value: "web-acl-test" },
+        ]),
+        Statistic: "Sum",
+        Period: 300,
+        Threshold: 500,
+      });
+    });
+
+    test("applies a custom WAF blocked requests threshold", () => {
+      new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+        webAclName: "web-acl-test",
+        wafBlockedThreshold: 50,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        MetricName: "BlockedRequests",
+        Threshold: 50,
+      });
+    });
+
+    test("does not create WAF alarm without a web ACL", () => {
+      const monitoring = new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+      });
+
+      expect(monitoring.wafBlockedAlarm).toBeUndefined();
+    });
+
+    test("alarm names match ecsAlarmNames", () => {
+      const monitoring = new MonitoringConstruct(stack, "TestMonitoring", {
+        envName: "test",
+        ecsClusterName: "test-cluster",
+        ecsServiceName: "test-service",
+        loadBalancerFullName: "app/alb-test/1234567890",
+      });
+      const template = Template.fromStack(stack);
+      const names = ecsAlarmNames("test");
+
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: names.cpu,
+      });
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: names.memory,
+      });
+      template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+        AlarmName: names.http5xx,
+      });
+      expect(monitoring.cpuAlarm).toBeDefined();
+      expect(monitoring.memoryAlarm).toBeDefined();
+    });
+
     test("alarms have SNS actions", () => {
       new MonitoringConstruct(stack, "TestMonitoring", {
         envName: "test",
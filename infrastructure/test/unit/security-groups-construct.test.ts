@@ -0,0 +1,382 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import {
+  EcsConstruct,
+  EcsConstructProps,
+} from "../../lib/constructs/compute/ecs-construct";
+import { LoadBalancerConstruct } from "../../lib/constructs/networking/load-balancer-construct";
+import { SecurityGroupsConstruct } from "../../lib/constructs/networking/security-groups-construct";
+
+interface IngressRule {
+  groupId: unknown;
+  CidrIp?: string;
+  CidrIpv6?: string;
+  FromPort?: number;
+  ToPort?: number;
+  SourceSecurityGroupId?: unknown;
+  SourcePrefixListId?: string;
+}
+
+// Inline rules on AWS::EC2::SecurityGroup plus standalone ingress resources
+function ingressRules(template: Template): IngressRule[] {
+  const inline = Object.entries(
+    template.findResources("AWS::EC2::SecurityGroup")
+  ).flatMap(([logicalId, group]) =>
+    (group.Properties.SecurityGroupIngress || []).map((rule: IngressRule) => ({
+      ...rule,
+      groupId: { "Fn::GetAtt": [logicalId, "GroupId"] },
+    }))
+  );
+  const standalone = Object.values(
+    template.findResources("AWS::EC2::SecurityGroupIngress")
+  ).map((resource) => ({
+    ...resource.Properties,
+    groupId: resource.Properties.GroupId,
+  }));
+  return [...inline, ...standalone];
+}
+
+function internetIngress(template: Template): IngressRule[] {
+  return ingressRules(template).filter(
+    (rule) => rule.CidrIp === "0.0.0.0/0" || rule.CidrIpv6 === "::/0"
+  );
+}
+
+describe("SecurityGroupsConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+  let vpc: ec2.IVpc;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+    vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2, natGateways: 0 });
+  });
+
+  // Wires the groups the way ComputeStack does
+  const createWorkload = (
+    listenerPorts: number[],
+    ecsProps: Partial<EcsConstructProps> = {},
+    domainName?: string
+  ) => {
+    const securityGroups = new SecurityGroupsConstruct(stack, "Groups", {
+      vpc,
+      envName: "test",
+      listenerPorts,
+      containerPort: 3000,
+    });
+    const ecsConstruct = new EcsConstruct(stack, "TestEcs", {
+      vpc,
+      envName: "test",
+      containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+      containerPort: 3000,
+      instanceSecurityGroup: securityGroups.instanceSecurityGroup,
+      taskSecurityGroup: securityGroups.taskSecurityGroup,
+      ...ecsProps,
+    });
+    new LoadBalancerConstruct(stack, "TestAlb", {
+      vpc,
+      envName: "test",
+      service: ecsConstruct.service,
+      securityGroup: securityGroups.albSecurityGroup,
+      containerPort: 3000,
+      domainName,
+      hostedZone: domainName
+        ? route53.HostedZone.fromHostedZoneAttributes(stack, "Zone", {
+            hostedZoneId: "Z0123456789ABC",
+            zoneName: "example.com",
+          })
+        : undefined,
+      enableBlueGreen: ecsProps.deploymentStrategy === "BLUE_GREEN",
+    });
+
+    return {
+      securityGroups,
+      ecsConstruct,
+      template: Template.fromStack(stack),
+    };
+  };
+
+  describe("Security Groups", () => {
+    test("creates ALB, instance and task groups", () => {
+      new SecurityGroupsConstruct(stack, "Groups", {
+        vpc,
+        envName: "test",
+        listenerPorts: [80],
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::SecurityGroup", 3);
+      ["ALB", "ECS instances", "ECS tasks"].forEach((name) => {
+        template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+          GroupDescription: `${name} for test`,
+        });
+      });
+    });
+
+    test("only opens the listener ports on the ALB", () => {
+      const { securityGroups, template } = createWorkload([80, 443]);
+      const albGroupId = stack.resolve(
+        securityGroups.albSecurityGroup.securityGroupId
+      );
+
+      const internet = internetIngress(template);
+      expect(
+        internet.map((rule) => Number(rule.FromPort)).sort((a, b) => a - b)
+      ).toEqual([80, 443]);
+      internet.forEach((rule) => {
+        expect(rule.groupId).toEqual(albGroupId);
+        expect(rule.ToPort).toEqual(rule.FromPort);
+      });
+    });
+
+    test("opens the listener ports to the given peer only", () => {
+      const securityGroups = new SecurityGroupsConstruct(stack, "Groups", {
+        vpc,
+        envName: "test",
+        listenerPorts: [443],
+        listenerPeer: ec2.Peer.prefixList("pl-3b927c52"),
+        containerPort: 3000,
+      });
+      const template = Template.fromStack(stack);
+      const albGroupId = stack.resolve(
+        securityGroups.albSecurityGroup.securityGroupId
+      );
+
+      expect(internetIngress(template)).toEqual([]);
+      expect(
+        ingressRules(template).filter(
+          (rule) => JSON.stringify(rule.groupId) === JSON.stringify(albGroupId)
+        )
+      ).toEqual([
+        expect.objectContaining({
+          SourcePrefixListId: "pl-3b927c52",
+          FromPort: 443,
+          ToPort: 443,
+        }),
+      ]);
+    });
+
+    test("limits ALB egress to the instances and tasks", () => {
+      const { securityGroups, template } = createWorkload([80]);
+      const albGroupId = stack.resolve(
+        securityGroups.albSecurityGroup.securityGroupId
+      );
+
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupDescription: "ALB for test",
+        SecurityGroupEgress: Match.absent(),
+      });
+      const egress = Object.values(
+        template.findResources("AWS::EC2::SecurityGroupEgress")
+      ).map((resource) => resource.Properties);
+      egress.forEach((rule) => {
+        expect(rule.GroupId).toEqual(albGroupId);
+        expect(rule.DestinationSecurityGroupId).toBeDefined();
+      });
+      expect(egress.map((rule) => rule.FromPort).sort((a, b) => a - b)).toEqual(
+        [3000, 32768]
+      );
+    });
+  });
+
+  describe("Instance Group", () => {
+    test("accepts the ephemeral range from the ALB only", () => {
+      const { securityGroups, template } = createWorkload([80]);
+      const instanceGroupId = stack.resolve(
+        securityGroups.instanceSecurityGroup.securityGroupId
+      );
+
+      const rules = ingressRules(template).filter(
+        (rule) =>
+          JSON.stringify(rule.groupId) === JSON.stringify(instanceGroupId)
+      );
+      // No SSH or other direct access
+      expect(rules).toHaveLength(1);
+      expect([rules[0].FromPort, rules[0].ToPort]).toEqual([32768, 65535]);
+      expect(rules[0].SourceSecurityGroupId).toEqual(
+        stack.resolve(securityGroups.albSecurityGroup.securityGroupId)
+      );
+    });
+
+    test.each([
+      ["addCapacity()", {}],
+      ["capacity provider", { enableCapacityProvider: true }],
+      [
+        "Spot capacity",
+        { spotCapacity: { instanceTypes: [new ec2.InstanceType("t3.micro")] } },
+      ],
+    ])("is the only group on %s instances", (_, ecsProps) => {
+      const { securityGroups, ecsConstruct, template } = createWorkload(
+        [80],
+        ecsProps
+      );
+
+      expect(ecsConstruct.asg?.connections.securityGroups).toEqual([
+        securityGroups.instanceSecurityGroup,
+      ]);
+      // No CDK default instance group next to the three shared ones
+      template.resourceCountIs("AWS::EC2::SecurityGroup", 3);
+    });
+  });
+
+  describe("Task Group", () => {
+    test("is attached to Fargate tasks with the container port from the ALB", () => {
+      const { securityGroups, template } = createWorkload([80], {
+        launchMode: "FARGATE",
+      });
+      const taskGroupId = stack.resolve(
+        securityGroups.taskSecurityGroup.securityGroupId
+      );
+
+      template.hasResourceProperties("AWS::ECS::Service", {
+        NetworkConfiguration: {
+          AwsvpcConfiguration: Match.objectLike({
+            SecurityGroups: [taskGroupId],
+          }),
+        },
+      });
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        GroupId: taskGroupId,
+        FromPort: 3000,
+        ToPort: 3000,
+        SourceSecurityGroupId: stack.resolve(
+          securityGroups.albSecurityGroup.securityGroupId
+        ),
+      });
+    });
+  });
+
+  describe("Without Load Balancer", () => {
+    test("opens the container port on the task group to the allow-list only", () => {
+      const securityGroups = new SecurityGroupsConstruct(stack, "Groups", {
+        vpc,
+        envName: "test",
+        listenerPorts: [],
+        containerPort: 3000,
+        containerPortPeers: [ec2.Peer.ipv4("203.0.113.0/24")],
+      });
+      const template = Template.fromStack(stack);
+
+      expect(
+        ingressRules(template).filter((rule) => rule.CidrIp !== undefined)
+      ).toEqual([
+        expect.objectContaining({
+          groupId: stack.resolve(
+            securityGroups.taskSecurityGroup.securityGroupId
+          ),
+          CidrIp: "203.0.113.0/24",
+          FromPort: 3000,
+          ToPort: 3000,
+        }),
+      ]);
+    });
+
+    test("keeps tasks closed by default", () => {
+      new SecurityGroupsConstruct(stack, "Groups", {
+        vpc,
+        envName: "test",
+        listenerPorts: [],
+        containerPort: 3000,
+      });
+
+      expect(
+        ingressRules(Template.fromStack(stack)).filter(
+          (rule) => rule.CidrIp !== undefined || rule.CidrIpv6 !== undefined
+        )
+      ).toEqual([]);
+    });
+
+    test.each([
+      ["any IPv4", ec2.Peer.anyIpv4()],
+      ["any IPv6", ec2.Peer.anyIpv6()],
+      ["a /0 CIDR", ec2.Peer.ipv4("0.0.0.0/0")],
+    ])("refuses %s on the container port", (_, peer) => {
+      expect(
+        () =>
+          new SecurityGroupsConstruct(stack, "Groups", {
+            vpc,
+            envName: "test",
+            listenerPorts: [],
+            containerPort: 3000,
+            containerPortPeers: [peer],
+          })
+      ).toThrow(/only the ALB listeners are open to the internet/);
+    });
+  });
+
+  describe("Internet Ingress", () => {
+    // Fails on any 0.0.0.0/0 or ::/0 rule outside the ALB listener ports
+    const expectInternetOnListenersOnly = (
+      template: Template,
+      albGroupId: unknown,
+      listenerPorts: number[]
+    ) => {
+      internetIngress(template).forEach((rule) => {
+        expect(rule.groupId).toEqual(albGroupId);
+        expect(listenerPorts).toContain(rule.FromPort);
+        expect(rule.ToPort).toEqual(rule.FromPort);
+      });
+    };
+
+    test.each([
+      ["HTTP only", [80], {}, undefined],
+      ["HTTPS with redirect", [80, 443], {}, "dev.example.com"],
+      ["Fargate", [80], { launchMode: "FARGATE" as const }, undefined],
+      [
+        "blue/green test listener",
+        [80],
+        { deploymentStrategy: "BLUE_GREEN" as const },
+        undefined,
+      ],
+    ])(
+      "%s: no 0.0.0.0/0 ingress except on ALB listener ports",
+      (_, listenerPorts, ecsProps, domainName) => {
+        const { securityGroups, template } = createWorkload(
+          listenerPorts,
+          ecsProps,
+          domainName
+        );
+
+        expectInternetOnListenersOnly(
+          template,
+          stack.resolve(securityGroups.albSecurityGroup.securityGroupId),
+          listenerPorts
+        );
+      }
+    );
+
+    test("no load balancer: no 0.0.0.0/0 ingress at all", () => {
+      const securityGroups = new SecurityGroupsConstruct(stack, "Groups", {
+        vpc,
+        envName: "test",
+        listenerPorts: [],
+        containerPort: 3000,
+        containerPortPeers: [ec2.Peer.ipv4("203.0.113.0/24")],
+      });
+      new EcsConstruct(stack, "TestEcs", {
+        vpc,
+        envName: "test",
+        containerImage: ecs.ContainerImage.fromRegistry("nginx"),
+        containerPort: 3000,
+        launchMode: "FARGATE_SPOT",
+        instanceSecurityGroup: securityGroups.instanceSecurityGroup,
+        taskSecurityGroup: securityGroups.taskSecurityGroup,
+      });
+      const template = Template.fromStack(stack);
+
+      expectInternetOnListenersOnly(
+        template,
+        stack.resolve(securityGroups.albSecurityGroup.securityGroupId),
+        []
+      );
+      expect(internetIngress(template)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { StaticSiteConstruct } from "../../lib/constructs/storage/static-site-construct";
+
+describe("StaticSiteConstruct", () => {
+  let template: Template;
+
+  beforeEach(() => {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, "TestStack");
+    new StaticSiteConstruct(stack, "StaticSite", { envName: "test" });
+    template = Template.fromStack(stack);
+  });
+
+  const distributionConfig = () =>
+    Object.values(template.findResources("AWS::CloudFront::Distribution"))[0]
+      .Properties.DistributionConfig;
+
+  describe("Bucket", () => {
+    test("blocks public access and is encrypted", () => {
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        PublicAccessBlockConfiguration: {
+          BlockPublicAcls: true,
+          BlockPublicPolicy: true,
+          IgnorePublicAcls: true,
+          RestrictPublicBuckets: true,
+        },
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            { ServerSideEncryptionByDefault: { SSEAlgorithm: "AES256" } },
+          ],
+        },
+      });
+    });
+
+    test("is kept when the stack is deleted", () => {
+      template.hasResource("AWS::S3::Bucket", {
+        DeletionPolicy: "Retain",
+      });
+    });
+
+    test("only lets this distribution read objects", () => {
+      template.hasResourceProperties("AWS::S3::BucketPolicy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Effect: "Allow",
+              Principal: { Service: "cloudfront.amazonaws.com" },
+              Action: "s3:GetObject",
+              Condition: {
+                StringEquals: { "AWS:SourceArn": Match.anyValue() },
+              },
+            }),
+          ]),
+        },
+      });
+    });
+  });
+
+  describe("Distribution", () => {
+    test("reads the bucket through Origin Access Control", () => {
+      template.resourceCountIs("AWS::CloudFront::OriginAccessControl", 1);
+      expect(distributionConfig().Origins).toEqual([
+        expect.objectContaining({
+          OriginAccessControlId: expect.anything(),
+          S3OriginConfig: { OriginAccessIdentity: "" },
+        }),
+      ]);
+    });
+
+    test("redirects to HTTPS and caches GET and HEAD", () => {
+      expect(distributionConfig().DefaultCacheBehavior).toMatchObject({
+        ViewerProtocolPolicy: "redirect-to-https",
+        AllowedMethods: ["GET", "HEAD"],
+        Compress: true,
+        CachePolicyId: "658327ea-f89d-4fab-a63d-7e88639e58f6", // CachingOptimized
+      });
+    });
+
+    test("serves the exported 404 page for missing objects", () => {
+      expect(distributionConfig()).toMatchObject({
+        DefaultRootObject: "index.html",
+        CustomErrorResponses: [
+          {
+            ErrorCode: 403,
+            ResponseCode: 404,
+            ResponsePagePath: "/404.html",
+          },
+          {
+            ErrorCode: 404,
+            ResponseCode: 404,
+            ResponsePagePath: "/404.html",
+          },
+        ],
+      });
+    });
+
+    test("has no other cache behaviors", () => {
+      expect(distributionConfig().CacheBehaviors).toBeUndefined();
+    });
+  });
+
+  describe("Viewer request function", () => {
+    type Request = { uri: string };
+    type Response = {
+      statusCode: number;
+      headers: { [name: string]: { value: string } };
+      body: { data: string };
+    };
+
+    // Runs the function code from the template as CloudFront would
+    const handler = (): ((event: {
+      request: Request;
+    }) => Request | Response) => {
+      const [cloudFrontFunction] = Object.values(
+        template.findResources("AWS::CloudFront::Function")
+      );
+      return new Function(
+        `${cloudFrontFunction.Properties.FunctionCode}\nreturn handler;`
+      )();
+    };
+
+    const rewrite = (uri: string) =>
+      (handler()({ request: { uri } }) as Request).uri;
+
+    test("is associated with viewer requests", () => {
+      template.hasResourceProperties("AWS::CloudFront::Function", {
+        Name: "test-static-site-viewer-request",
+        FunctionConfig: Match.objectLike({ Runtime: "cloudfront-js-2.0" }),
+      });
+      expect(
+        distributionConfig().DefaultCacheBehavior.FunctionAssociations
+      ).toEqual([expect.objectContaining({ EventType: "viewer-request" })]);
+    });
+
+    test("maps page URLs to exported HTML files", () => {
+      expect(rewrite("/")).toBe("/index.html");
+      expect(rewrite("/about")).toBe("/about.html");
+      expect(rewrite("/articles/")).toBe("/articles/index.html");
+      expect(rewrite("/articles/golden-ami")).toBe("/articles/golden-ami.html");
+    });
+
+    test("leaves files untouched", () => {
+      expect(rewrite("/feed.xml")).toBe("/feed.xml");
+      expect(rewrite("/favicon.ico")).toBe("/favicon.ico");
+      expect(rewrite("/_next/static/chunks/app.js")).toBe(
+        "/_next/static/chunks/app.js"
+      );
+    });
+
+    test("answers /api/health without reaching S3", () => {
+      const response = handler()({
+        request: { uri: "/api/health" },
+      }) as Response;
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["cache-control"].value).toBe("no-store");
+      expect(JSON.parse(response.body.data)).toMatchObject({
+        status: "healthy",
+      });
+    });
+  });
+});
@@ -1,7 +1,8 @@
 /** @format */
 
 import * as cdk from "aws-cdk-lib";
-import { Template, Match } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { Annotations, Template, Match } from "aws-cdk-lib/assertions";
 import { VpcConstruct } from "../../lib/constructs/networking/vpc-construct";
 
 describe("VpcConstruct", () => {
@@ -182,6 +183,308 @@ describe("VpcConstruct", () => {
     });
   });
 
+  // ============================================
+  // IP Address Plan Tests
+  // ============================================
+
+  describe("IP Address Plan", () => {
+    test("uses the planned VPC CIDR and subnet masks", () => {
+      new VpcConstruct(stack, "TestVpc", {
+        ipPlan: {
+          vpcCidr: "10.1.0.0/16",
+          publicSubnetMask: 26,
+          privateSubnetMask: 20,
+        },
+      });
+      const template = Template.fromStack(stack);
+      const subnets = Object.values(template.findResources("AWS::EC2::Subnet"));
+      const cidrsFor = (name: string) =>
+        subnets
+          .filter((subnet: any) =>
+            subnet.Properties.Tags.some(
+              (tag: any) =>
+                tag.Key === "aws-cdk:subnet-name" && tag.Value === name
+            )
+          )
+          .map((subnet: any) => subnet.Properties.CidrBlock);
+
+      template.hasResourceProperties("AWS::EC2::VPC", {
+        CidrBlock: "10.1.0.0/16",
+      });
+      cidrsFor("Public").forEach((cidr) =>
+        expect(cidr).toMatch(/^10\.1\..*\/26$/)
+      );
+      cidrsFor("Private").forEach((cidr) =>
+        expect(cidr).toMatch(/^10\.1\..*\/20$/)
+      );
+    });
+
+    test("throws when a subnet mask does not fit the VPC", () => {
+      expect(() => {
+        new VpcConstruct(stack, "TestVpc", {
+          ipPlan: { vpcCidr: "10.1.0.0/24", privateSubnetMask: 24 },
+        });
+      }).toThrow(/Subnet mask \/24 does not fit VPC 10.1.0.0\/24/);
+    });
+
+    test("throws when the VPC overlaps one of its reserved ranges", () => {
+      expect(() => {
+        new VpcConstruct(stack, "TestVpc", {
+          ipPlan: { vpcCidr: "10.1.0.0/16", reservedRanges: ["10.1.64.0/18"] },
+        });
+      }).toThrow(/overlaps reserved range 10.1.64.0\/18/);
+    });
+
+    test("warns while an isolated VPC awaits its migration", () => {
+      new VpcConstruct(stack, "TestVpc", {
+        ipPlan: {
+          vpcCidr: "10.0.0.0/16",
+          isolated: true,
+          plannedVpcCidr: "10.1.0.0/16",
+        },
+      });
+
+      Annotations.fromStack(stack).hasWarning(
+        "*",
+        Match.stringLikeRegexp(
+          "VPC 10.0.0.0/16 is isolated .* migrated to 10.1.0.0/16"
+        )
+      );
+    });
+
+    test("throws when an isolated VPC has no planned block", () => {
+      expect(() => {
+        new VpcConstruct(stack, "TestVpc", {
+          ipPlan: { vpcCidr: "10.0.0.0/16", isolated: true },
+        });
+      }).toThrow(/needs the plannedVpcCidr/);
+    });
+
+    test("stays IPv4-only by default", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        ipPlan: { vpcCidr: "10.1.0.0/16" },
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.ipv6CidrBlock).toBeUndefined();
+      template.resourceCountIs("AWS::EC2::VPCCidrBlock", 0);
+      template.resourceCountIs("AWS::EC2::EgressOnlyInternetGateway", 0);
+    });
+
+    test("creates dual-stack subnets with an egress-only internet gateway", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        ipPlan: { vpcCidr: "10.1.0.0/16", ipv6: true },
+        privateEgress: "NAT_INSTANCE",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.ipv6CidrBlock).toBeDefined();
+      template.hasResourceProperties("AWS::EC2::VPCCidrBlock", {
+        AmazonProvidedIpv6CidrBlock: true,
+      });
+      template.resourceCountIs("AWS::EC2::EgressOnlyInternetGateway", 1);
+      template.hasResourceProperties("AWS::EC2::Route", {
+        DestinationIpv6CidrBlock: "::/0",
+        EgressOnlyInternetGatewayId: Match.anyValue(),
+      });
+      template.hasResourceProperties("AWS::EC2::Subnet", {
+        Ipv6CidrBlock: Match.anyValue(),
+      });
+    });
+  });
+
+  // ============================================
+  // Private Compute Tests
+  // ============================================
+
+  describe("Private Compute", () => {
+    test("keeps compute in public subnets by default", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc");
+
+      expect(vpcConstruct.computeSubnetType).toBe(ec2.SubnetType.PUBLIC);
+      expect(vpcConstruct.natInstanceProvider).toBeUndefined();
+    });
+
+    test("NAT_INSTANCE routes private subnets through one NAT instance", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        privateEgress: "NAT_INSTANCE",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.computeSubnetType).toBe(
+        ec2.SubnetType.PRIVATE_WITH_EGRESS
+      );
+      template.resourceCountIs("AWS::EC2::NatGateway", 0);
+      template.resourceCountIs("AWS::EC2::Instance", 1);
+      template.hasResourceProperties("AWS::EC2::Instance", {
+        InstanceType: "t4g.nano",
+        SourceDestCheck: false,
+      });
+      template.hasResourceProperties("AWS::EC2::Route", {
+        DestinationCidrBlock: "0.0.0.0/0",
+        InstanceId: Match.anyValue(),
+      });
+    });
+
+    test("NAT instance accepts traffic from the VPC only", () => {
+      new VpcConstruct(stack, "TestVpc", { privateEgress: "NAT_INSTANCE" });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        SecurityGroupIngress: [
+          Match.objectLike({
+            CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+            IpProtocol: "-1",
+          }),
+        ],
+      });
+    });
+
+    test("NAT_INSTANCE respects the NAT count and instance type", () => {
+      new VpcConstruct(stack, "TestVpc", {
+        privateEgress: "NAT_INSTANCE",
+        natGateways: 2,
+        natInstanceType: new ec2.InstanceType("t3.nano"),
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::Instance", 2);
+      template.hasResourceProperties("AWS::EC2::Instance", {
+        InstanceType: "t3.nano",
+      });
+    });
+
+    test("VPC_ENDPOINTS isolates private subnets behind endpoints", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        privateEgress: "VPC_ENDPOINTS",
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.computeSubnetType).toBe(
+        ec2.SubnetType.PRIVATE_ISOLATED
+      );
+      template.resourceCountIs("AWS::EC2::NatGateway", 0);
+      template.resourceCountIs("AWS::EC2::Instance", 0);
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: Match.objectLike({
+          "Fn::Join": ["", Match.arrayWith([".s3"])],
+        }),
+      });
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Interface",
+        PrivateDnsEnabled: true,
+      });
+    });
+
+    test.each(["ecr.api", "ecr.dkr", "logs", "ecs-agent", "ssmmessages"])(
+      "VPC_ENDPOINTS creates the %s interface endpoint",
+      (service) => {
+        new VpcConstruct(stack, "TestVpc", { privateEgress: "VPC_ENDPOINTS" });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+          ServiceName: Match.objectLike({
+            "Fn::Join": ["", Match.arrayWith([`.${service}`])],
+          }),
+        });
+      }
+    );
+  });
+
+  // ============================================
+  // Flow Log Tests
+  // ============================================
+
+  describe("Flow Logs", () => {
+    test("creates no flow logs by default", () => {
+      new VpcConstruct(stack, "TestVpc");
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::FlowLog", 0);
+    });
+
+    test("logs rejected traffic to CloudWatch Logs by default", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        envName: "test",
+        flowLogs: {},
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.flowLogGroup).toBeDefined();
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "/vpc/test/flow-logs",
+        RetentionInDays: 30,
+      });
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        ResourceType: "VPC",
+        TrafficType: "REJECT",
+        LogDestinationType: "cloud-watch-logs",
+        DeliverLogsPermissionArn: Match.anyValue(),
+      });
+    });
+
+    test("saves a Logs Insights query for top rejected sources", () => {
+      new VpcConstruct(stack, "TestVpc", { envName: "test", flowLogs: {} });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::Logs::QueryDefinition", {
+        Name: "test/vpc-flow-logs/top-rejected-sources",
+        QueryString: Match.stringLikeRegexp(
+          'filter action = "REJECT"[\\s\\S]*stats count\\(\\*\\) as rejected by srcAddr'
+        ),
+        LogGroupNames: [Match.anyValue()],
+      });
+    });
+
+    test("respects traffic type and retention", () => {
+      new VpcConstruct(stack, "TestVpc", {
+        flowLogs: { trafficType: "ALL", retentionDays: 90 },
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        RetentionInDays: 90,
+      });
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        TrafficType: "ALL",
+      });
+    });
+
+    test("throws on a retention CloudWatch Logs does not support", () => {
+      expect(() => {
+        new VpcConstruct(stack, "TestVpc", { flowLogs: { retentionDays: 45 } });
+      }).toThrow(/45 days is not supported/);
+    });
+
+    test("delivers to an encrypted S3 bucket with expiration", () => {
+      const vpcConstruct = new VpcConstruct(stack, "TestVpc", {
+        flowLogs: { destination: "S3", retentionDays: 45 },
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.flowLogBucket).toBeDefined();
+      expect(vpcConstruct.flowLogGroup).toBeUndefined();
+      template.hasResourceProperties("AWS::EC2::FlowLog", {
+        LogDestinationType: "s3",
+        TrafficType: "REJECT",
+      });
+      template.hasResourceProperties("AWS::S3::Bucket", {
+        BucketEncryption: Match.objectLike({
+          ServerSideEncryptionConfiguration: [
+            Match.objectLike({
+              ServerSideEncryptionByDefault: { SSEAlgorithm: "AES256" },
+            }),
+          ],
+        }),
+        LifecycleConfiguration: {
+          Rules: [Match.objectLike({ ExpirationInDays: 45 })],
+        },
+      });
+      template.resourceCountIs("AWS::Logs::QueryDefinition", 0);
+    });
+  });
+
   // ============================================
   // Internet Gateway Tests
   // ============================================
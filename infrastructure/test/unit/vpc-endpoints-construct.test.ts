@@ -0,0 +1,196 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { VpcEndpointsConstruct } from "../../lib/constructs/networking/vpc-endpoints-construct";
+import { VpcConstruct } from "../../lib/constructs/networking/vpc-construct";
+import { SsmParametersConstruct } from "../../lib/constructs/config/ssm-parameters-construct";
+
+describe("VpcEndpointsConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+  let vpc: ec2.IVpc;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+    vpc = new ec2.Vpc(stack, "TestVpc", { maxAzs: 2, natGateways: 0 });
+  });
+
+  const serviceName = (service: string) =>
+    Match.objectLike({
+      "Fn::Join": ["", Match.arrayWith([`.${service}`])],
+    });
+
+  describe("Endpoints", () => {
+    test("creates all endpoints by default", () => {
+      const endpoints = new VpcEndpointsConstruct(stack, "Endpoints", { vpc });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 12);
+      expect(Object.keys(endpoints.endpointIds).sort()).toEqual([
+        "ec2messages",
+        "ecr-api",
+        "ecr-dkr",
+        "ecs",
+        "ecs-agent",
+        "ecs-telemetry",
+        "kms",
+        "logs",
+        "s3",
+        "secretsmanager",
+        "ssm",
+        "ssmmessages",
+      ]);
+    });
+
+    test("creates S3 as a gateway endpoint", () => {
+      const endpoints = new VpcEndpointsConstruct(stack, "Endpoints", { vpc });
+      const template = Template.fromStack(stack);
+
+      expect(endpoints.gatewayEndpoints.s3).toBeDefined();
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        VpcEndpointType: "Gateway",
+        ServiceName: serviceName("s3"),
+      });
+    });
+
+    test.each(["ecr.api", "ecr.dkr", "logs", "ecs-agent", "secretsmanager"])(
+      "creates the %s interface endpoint with private DNS",
+      (service) => {
+        new VpcEndpointsConstruct(stack, "Endpoints", { vpc });
+        const template = Template.fromStack(stack);
+
+        template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+          VpcEndpointType: "Interface",
+          ServiceName: serviceName(service),
+          PrivateDnsEnabled: true,
+        });
+      }
+    );
+
+    test("skips disabled endpoint groups", () => {
+      const endpoints = new VpcEndpointsConstruct(stack, "Endpoints", {
+        vpc,
+        ecs: false,
+        ssm: false,
+        kms: false,
+      });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::EC2::VPCEndpoint", 5);
+      expect(endpoints.interfaceEndpoints["ecs-agent"]).toBeUndefined();
+      expect(endpoints.interfaceEndpoints["ssmmessages"]).toBeUndefined();
+      expect(endpoints.interfaceEndpoints["ecr-dkr"]).toBeDefined();
+    });
+
+    test("places interface endpoints in the selected subnets", () => {
+      new VpcEndpointsConstruct(stack, "Endpoints", {
+        vpc,
+        subnets: { subnetType: ec2.SubnetType.PUBLIC },
+        s3: false,
+        ecr: false,
+        ecs: false,
+        ssm: false,
+        secretsManager: false,
+        kms: false,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        ServiceName: serviceName("logs"),
+        SubnetIds: vpc.publicSubnets.map((subnet) =>
+          stack.resolve(subnet.subnetId)
+        ),
+      });
+    });
+  });
+
+  describe("Security Group", () => {
+    test("shares one security group across interface endpoints", () => {
+      const endpoints = new VpcEndpointsConstruct(stack, "Endpoints", { vpc });
+      const template = Template.fromStack(stack);
+      const groupId = stack.resolve(endpoints.securityGroup.securityGroupId);
+
+      const interfaceEndpoints = Object.values(
+        template.findResources("AWS::EC2::VPCEndpoint", {
+          Properties: { VpcEndpointType: "Interface" },
+        })
+      );
+      expect(interfaceEndpoints).toHaveLength(11);
+      interfaceEndpoints.forEach((endpoint) => {
+        expect(endpoint.Properties.SecurityGroupIds).toEqual([groupId]);
+      });
+    });
+
+    test("only allows HTTPS from the VPC", () => {
+      new VpcEndpointsConstruct(stack, "Endpoints", { vpc });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::EC2::SecurityGroup", {
+        GroupDescription: "VPC interface endpoints",
+        SecurityGroupIngress: [
+          Match.objectLike({
+            CidrIp: { "Fn::GetAtt": [Match.anyValue(), "CidrBlock"] },
+            FromPort: 443,
+            ToPort: 443,
+            IpProtocol: "tcp",
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("VpcConstruct Integration", () => {
+    test("adds endpoints to a NAT instance VPC when toggles are set", () => {
+      const vpcConstruct = new VpcConstruct(stack, "PrivateVpc", {
+        privateEgress: "NAT_INSTANCE",
+        endpoints: { ecr: true, ecs: false, ssm: false, kms: false },
+      });
+      const template = Template.fromStack(stack);
+
+      expect(vpcConstruct.endpoints?.endpointIds["ecr-api"]).toBeDefined();
+      expect(vpcConstruct.endpoints?.endpointIds["ecs"]).toBeUndefined();
+      template.hasResourceProperties("AWS::EC2::VPCEndpoint", {
+        ServiceName: serviceName("ecr.dkr"),
+        SubnetIds: Match.arrayWith([
+          stack.resolve(vpcConstruct.vpc.privateSubnets[0].subnetId),
+        ]),
+      });
+    });
+
+    test("creates no endpoints for public compute without toggles", () => {
+      const vpcConstruct = new VpcConstruct(stack, "PublicVpc");
+
+      expect(vpcConstruct.endpoints).toBeUndefined();
+    });
+  });
+
+  describe("SSM Parameters", () => {
+    test("publishes endpoint IDs through SsmParametersConstruct", () => {
+      const endpoints = new VpcEndpointsConstruct(stack, "Endpoints", {
+        vpc,
+        ecs: false,
+        ssm: false,
+        kms: false,
+      });
+      new SsmParametersConstruct(stack, "SsmParameters", {
+        envName: "test",
+        vpc,
+        vpcEndpointIds: endpoints.endpointIds,
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::SSM::Parameter", {
+        Name: "/vpc/test/endpoints/ecr-api",
+        Value: stack.resolve(endpoints.endpointIds["ecr-api"]),
+      });
+      template.hasResourceProperties("AWS::SSM::Parameter", {
+        Name: "/vpc/test/endpoints/s3",
+      });
+      // VPC ID plus one per endpoint, no ECR or ECS parameters
+      template.resourceCountIs("AWS::SSM::Parameter", 6);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/** @format */
+
+import * as cdk from "aws-cdk-lib";
+import { Template, Match } from "aws-cdk-lib/assertions";
+import { WafConstruct } from "../../lib/constructs/networking/waf-construct";
+
+describe("WafConstruct", () => {
+  let app: cdk.App;
+  let stack: cdk.Stack;
+
+  beforeEach(() => {
+    app = new cdk.App();
+    stack = new cdk.Stack(app, "TestStack");
+  });
+
+  const rule = (template: Template, name: string) => {
+    const webAcl = Object.values(
+      template.findResources("AWS::WAFv2::WebACL")
+    )[0];
+    return webAcl.Properties.Rules.find(
+      (candidate: { Name: string }) => candidate.Name === name
+    );
+  };
+
+  describe("Web ACL", () => {
+    test("creates a regional web ACL that allows by default", () => {
+      const waf = new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      expect(waf.webAclName).toBe("web-acl-test");
+      template.hasResourceProperties("AWS::WAFv2::WebACL", {
+        Name: "web-acl-test",
+        Scope: "REGIONAL",
+        DefaultAction: { Allow: {} },
+        VisibilityConfig: {
+          MetricName: "web-acl-test",
+          CloudWatchMetricsEnabled: true,
+          SampledRequestsEnabled: true,
+        },
+      });
+    });
+
+    test("evaluates rules in priority order", () => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+      const webAcl = Object.values(
+        template.findResources("AWS::WAFv2::WebACL")
+      )[0];
+
+      expect(
+        webAcl.Properties.Rules.map(
+          (candidate: { Name: string; Priority: number }) => [
+            candidate.Priority,
+            candidate.Name,
+          ]
+        )
+      ).toEqual([
+        [0, "AWSManagedRulesAmazonIpReputationList"],
+        [1, "RateLimitFeed"],
+        [2, "RateLimitApi"],
+        [3, "RateLimitGeneral"],
+        [4, "AWSManagedRulesCommonRuleSet"],
+        [5, "AWSManagedRulesKnownBadInputsRuleSet"],
+      ]);
+    });
+
+    test.each([
+      "AWSManagedRulesCommonRuleSet",
+      "AWSManagedRulesKnownBadInputsRuleSet",
+      "AWSManagedRulesAmazonIpReputationList",
+    ])("uses the %s managed rule group", (name) => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      expect(rule(template, name)).toMatchObject({
+        Statement: {
+          ManagedRuleGroupStatement: { VendorName: "AWS", Name: name },
+        },
+        OverrideAction: { None: {} },
+        VisibilityConfig: { MetricName: `web-acl-test-${name}` },
+      });
+    });
+
+    test("associates the web ACL with the load balancer", () => {
+      new WafConstruct(stack, "Waf", {
+        envName: "test",
+        resourceArn:
+          "arn:aws:elasticloadbalancing:eu-west-1:123456789012:loadbalancer/app/alb-test/1234567890",
+      });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::WAFv2::WebACLAssociation", {
+        ResourceArn: Match.stringLikeRegexp("loadbalancer/app/alb-test"),
+        WebACLArn: { "Fn::GetAtt": [Match.anyValue(), "Arn"] },
+      });
+    });
+
+    test("creates no association without a resource", () => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      template.resourceCountIs("AWS::WAFv2::WebACLAssociation", 0);
+    });
+  });
+
+  describe("Rate Limiting", () => {
+    test("limits /feed.xml requests per IP", () => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      expect(rule(template, "RateLimitFeed")).toMatchObject({
+        Action: { Block: {} },
+        Statement: {
+          RateBasedStatement: {
+            Limit: 100,
+            AggregateKeyType: "IP",
+            EvaluationWindowSec: 300,
+            ScopeDownStatement: {
+              ByteMatchStatement: {
+                SearchString: "/feed.xml",
+                FieldToMatch: { UriPath: {} },
+                PositionalConstraint: "EXACTLY",
+              },
+            },
+          },
+        },
+      });
+    });
+
+    test("limits the forwarded client IP behind CloudFront", () => {
+      new WafConstruct(stack, "Waf", { envName: "test", forwardedIp: true });
+      const template = Template.fromStack(stack);
+
+      ["RateLimitFeed", "RateLimitApi", "RateLimitGeneral"].forEach((name) => {
+        expect(rule(template, name).Statement.RateBasedStatement).toMatchObject(
+          {
+            AggregateKeyType: "FORWARDED_IP",
+            ForwardedIPConfig: {
+              HeaderName: "X-Forwarded-For",
+              FallbackBehavior: "MATCH",
+            },
+          }
+        );
+      });
+    });
+
+    test("limits /api/ requests per IP", () => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      expect(rule(template, "RateLimitApi")).toMatchObject({
+        Statement: {
+          RateBasedStatement: {
+            Limit: 300,
+            ScopeDownStatement: {
+              ByteMatchStatement: {
+                SearchString: "/api/",
+                PositionalConstraint: "STARTS_WITH",
+              },
+            },
+          },
+        },
+      });
+    });
+
+    test("applies custom limits", () => {
+      new WafConstruct(stack, "Waf", {
+        envName: "test",
+        rateLimits: { general: 5000, feed: 50, api: 600 },
+      });
+      const template = Template.fromStack(stack);
+
+      expect(
+        ["RateLimitGeneral", "RateLimitFeed", "RateLimitApi"].map(
+          (name) => rule(template, name).Statement.RateBasedStatement.Limit
+        )
+      ).toEqual([5000, 50, 600]);
+      expect(
+        rule(template, "RateLimitGeneral").Statement.RateBasedStatement
+          .ScopeDownStatement
+      ).toBeUndefined();
+    });
+
+    test("throws on a limit WAF does not accept", () => {
+      expect(() => {
+        new WafConstruct(stack, "Waf", {
+          envName: "test",
+          rateLimits: { feed: 5 },
+        });
+      }).toThrow(/RateLimitFeed limit must be between 10 and 2000000000/);
+    });
+  });
+
+  describe("Logging", () => {
+    test("logs to an aws-waf-logs- log group", () => {
+      const waf = new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::Logs::LogGroup", {
+        LogGroupName: "aws-waf-logs-test",
+        RetentionInDays: 30,
+      });
+      template.hasResourceProperties("AWS::WAFv2::LoggingConfiguration", {
+        ResourceArn: stack.resolve(waf.webAclArn),
+        LogDestinationConfigs: [
+          {
+            "Fn::Join": [
+              "",
+              Match.arrayWith([
+                Match.stringLikeRegexp(":log-group:$"),
+                { Ref: Match.stringLikeRegexp("WafLogGroup") },
+              ]),
+            ],
+          },
+        ],
+      });
+    });
+
+    test("redacts credentials and only keeps blocked and counted requests", () => {
+      new WafConstruct(stack, "Waf", { envName: "test" });
+      const template = Template.fromStack(stack);
+
+      template.hasResourceProperties("AWS::WAFv2::LoggingConfiguration", {
+        RedactedFields: [
+          { SingleHeader: { Name: "authorization" } },
+          { SingleHeader: { Name: "cookie" } },
+        ],
+        LoggingFilter: {
+          DefaultBehavior: "DROP",
+          Filters: [
+            Match.objectLike({
+              Behavior: "KEEP",
+              Conditions: [
+                { ActionCondition: { Action: "BLOCK" } },
+                { ActionCondition: { Action: "COUNT" } },
+              ],
+            }),
+          ],
+        },
+      });
+    });
+
+    test("throws on a retention CloudWatch Logs does not support", () => {
+      expect(() => {
+        new WafConstruct(stack, "Waf", {
+          envName: "test",
+          logRetentionDays: 45,
+        });
+      }).toThrow(/WAF log retention of 45 days is not supported/);
+    });
+  });
+
+  describe("CloudFront Scope", () => {
+    test("creates a CLOUDFRONT web ACL in us-east-1", () => {
+      const edgeStack = new cdk.Stack(app, "EdgeStack", {
+        env: { region: "us-east-1" },
+      });
+      new WafConstruct(edgeStack, "Waf", {
+        envName: "test",
+        scope: "CLOUDFRONT",
+      });
+      const template = Template.fromStack(edgeStack);
+
+      template.hasResourceProperties("AWS::WAFv2::WebACL", {
+        Scope: "CLOUDFRONT",
+      });
+    });
+
+    test("throws for a CLOUDFRONT web ACL outside us-east-1", () => {
+      const regionalStack = new cdk.Stack(app, "RegionalStack", {
+        env: { region: "eu-west-1" },
+      });
+
+      expect(() => {
+        new WafConstruct(regionalStack, "Waf", {
+          envName: "test",
+          scope: "CLOUDFRONT",
+        });
+      }).toThrow(/must be created in us-east-1 \(eu-west-1\)/);
+    });
+  });
+});
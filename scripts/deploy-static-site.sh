@@ -0,0 +1,49 @@
+#!/usr/bin/env bash
+# @format
+# Build the Next.js static export and upload it to the static site bucket
+
+set -euo pipefail
+
+# Required environment variables
+: "${ENVIRONMENT:?ENVIRONMENT must be set}"
+: "${AWS_REGION:?AWS_REGION must be set}"
+
+BUCKET_PARAM="/static-site/${ENVIRONMENT}/bucket-name"
+SITE_URL_PARAM="/static-site/${ENVIRONMENT}/site-url"
+
+# Environments with hostingMode CONTAINER have no static site bucket
+if ! BUCKET_NAME=$(aws ssm get-parameter \
+  --name "${BUCKET_PARAM}" \
+  --query 'Parameter.Value' \
+  --output text \
+  --region "${AWS_REGION}" 2>/dev/null); then
+  echo "⚠ ${BUCKET_PARAM} not found, environment is not hosted as a static export"
+  exit 0
+fi
+
+SITE_URL=$(aws ssm get-parameter \
+  --name "${SITE_URL_PARAM}" \
+  --query 'Parameter.Value' \
+  --output text \
+  --region "${AWS_REGION}")
+
+echo "Building static export for ${SITE_URL}..."
+NEXT_PUBLIC_SITE_URL="${SITE_URL}" yarn workspace frontend build:static
+
+OUT_DIR="frontend/out"
+
+# Content-hashed assets first, so pages uploaded next never reference
+# missing files. Old assets are kept for pages still cached by browsers.
+aws s3 sync "${OUT_DIR}/_next/static" "s3://${BUCKET_NAME}/_next/static" \
+  --cache-control "public, max-age=31536000, immutable" \
+  --region "${AWS_REGION}"
+
+# Pages and feed.xml: browsers revalidate, CloudFront keeps them until the
+# invalidation that follows the deployment
+aws s3 sync "${OUT_DIR}" "s3://${BUCKET_NAME}" \
+  --exclude "_next/static/*" \
+  --cache-control "public, max-age=0, s-maxage=31536000" \
+  --delete \
+  --region "${AWS_REGION}"
+
+echo "✓ Static export uploaded to s3://${BUCKET_NAME}"
@@ -0,0 +1,40 @@
+#!/usr/bin/env bash
+# @format
+# Invalidate the CloudFront cache after a deployment
+
+set -euo pipefail
+
+# Required environment variables
+: "${ENVIRONMENT:?ENVIRONMENT must be set}"
+: "${AWS_REGION:?AWS_REGION must be set}"
+
+PARAM_NAME="/cloudfront/${ENVIRONMENT}/distribution-id"
+# Pages and feed.xml are cached until invalidated, /_next/static is immutable
+INVALIDATION_PATHS="${INVALIDATION_PATHS:-/*}"
+
+# Environments without enableCdn have no distribution
+if ! DISTRIBUTION_ID=$(aws ssm get-parameter \
+  --name "${PARAM_NAME}" \
+  --query 'Parameter.Value' \
+  --output text \
+  --region "${AWS_REGION}" 2>/dev/null); then
+  echo "⚠ ${PARAM_NAME} not found, no CloudFront distribution to invalidate"
+  exit 0
+fi
+
+echo "Invalidating ${INVALIDATION_PATHS} on ${DISTRIBUTION_ID}..."
+
+# Space-separated paths, read into an array so /* is not globbed
+read -r -a PATHS <<< "${INVALIDATION_PATHS}"
+
+INVALIDATION_ID=$(aws cloudfront create-invalidation \
+  --distribution-id "${DISTRIBUTION_ID}" \
+  --paths "${PATHS[@]}" \
+  --query 'Invalidation.Id' \
+  --output text)
+
+aws cloudfront wait invalidation-completed \
+  --distribution-id "${DISTRIBUTION_ID}" \
+  --id "${INVALIDATION_ID}"
+
+echo "✓ Invalidation ${INVALIDATION_ID} completed"
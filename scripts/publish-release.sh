@@ -0,0 +1,43 @@
+#!/usr/bin/env bash
+# @format
+# Record the deployed image tag as the environment's current release
+
+set -euo pipefail
+
+# Required environment variables
+: "${ENVIRONMENT:?ENVIRONMENT must be set}"
+: "${AWS_REGION:?AWS_REGION must be set}"
+: "${IMAGE_TAG:?IMAGE_TAG must be set}"
+
+REPOSITORY_NAME="app-repo-${ENVIRONMENT}"
+RELEASE_PARAM_NAME="/ecr/${ENVIRONMENT}/current-release"
+
+# Public placeholder images (e.g. nginx:alpine) are never released
+if [[ "${IMAGE_TAG}" == *:* && "${IMAGE_TAG}" != sha256:* ]]; then
+  echo "⚠ ${IMAGE_TAG} is a public registry image, keeping the current release"
+  exit 0
+fi
+
+if [[ "${IMAGE_TAG}" == sha256:* ]]; then
+  IMAGE_ID="imageDigest=${IMAGE_TAG}"
+else
+  IMAGE_ID="imageTag=${IMAGE_TAG}"
+fi
+
+# Only release images that were pushed
+if ! aws ecr describe-images \
+  --repository-name "${REPOSITORY_NAME}" \
+  --image-ids "${IMAGE_ID}" \
+  --region "${AWS_REGION}" > /dev/null; then
+  echo "::error::Image ${IMAGE_TAG} not found in ${REPOSITORY_NAME}"
+  exit 1
+fi
+
+aws ssm put-parameter \
+  --name "${RELEASE_PARAM_NAME}" \
+  --value "${IMAGE_TAG}" \
+  --type String \
+  --overwrite \
+  --region "${AWS_REGION}" > /dev/null
+
+echo "✓ ${RELEASE_PARAM_NAME} set to ${IMAGE_TAG}"
@@ -0,0 +1,130 @@
+#!/usr/bin/env bash
+# @format
+# Resolve the deployed image tag to its ECR digest for the CDK synth
+
+set -euo pipefail
+
+# Required environment variables
+: "${ENVIRONMENT:?ENVIRONMENT must be set}"
+: "${AWS_REGION:?AWS_REGION must be set}"
+
+REPOSITORY_NAME="app-repo-${ENVIRONMENT}"
+RELEASE_PARAM_NAME="/ecr/${ENVIRONMENT}/current-release"
+CDK_CONTEXT=""
+
+# Digest and latest scan result of an ECR tag or digest, added to CDK_CONTEXT
+resolve_image() {
+  local image_ref="$1"
+  local image_id image_digest status critical_findings
+
+  # Public placeholder images (e.g. nginx:alpine) are not in ECR
+  if [[ "${image_ref}" == *:* && "${image_ref}" != sha256:* ]]; then
+    echo "⚠ ${image_ref} is a public registry image, nothing to resolve"
+    return 0
+  fi
+
+  if [[ "${image_ref}" == sha256:* ]]; then
+    image_id="imageDigest=${image_ref}"
+  else
+    image_id="imageTag=${image_ref}"
+  fi
+
+  echo "Resolving ${image_ref} in ${REPOSITORY_NAME}..."
+
+  if ! image_digest=$(aws ecr describe-images \
+    --repository-name "${REPOSITORY_NAME}" \
+    --image-ids "${image_id}" \
+    --query 'imageDetails[0].imageDigest' \
+    --output text \
+    --region "${AWS_REGION}" 2>&1); then
+    echo "::error::Image ${image_ref} not found in ${REPOSITORY_NAME}: ${image_digest}"
+    exit 1
+  fi
+
+  echo "✓ ${image_ref} resolves to ${image_digest}"
+
+  # Matches ecrImageContextKey() in container-image-construct.ts
+  CDK_CONTEXT="${CDK_CONTEXT} --context ecr-image:${REPOSITORY_NAME}:${image_ref}=${image_digest}"
+
+  # Latest scan result, refused by the CDK app when blockCriticalFindings is set
+  status=$(scan_status "${image_digest}")
+
+  # Basic scans take a few minutes after the push
+  if [ "${status}" = "IN_PROGRESS" ]; then
+    echo "Waiting for the scan of ${image_digest} to complete..."
+    aws ecr wait image-scan-complete \
+      --repository-name "${REPOSITORY_NAME}" \
+      --image-id "imageDigest=${image_digest}" \
+      --region "${AWS_REGION}" || true
+    status=$(scan_status "${image_digest}")
+  fi
+
+  # COMPLETE for basic scans, ACTIVE while Inspector keeps rescanning
+  if [ "${status}" != "COMPLETE" ] && [ "${status}" != "ACTIVE" ]; then
+    echo "⚠ No scan result for ${image_digest} (${status})"
+    return 0
+  fi
+
+  critical_findings=$(aws ecr describe-image-scan-findings \
+    --repository-name "${REPOSITORY_NAME}" \
+    --image-id "imageDigest=${image_digest}" \
+    --query 'imageScanFindings.findingSeverityCounts.CRITICAL || `0`' \
+    --output text \
+    --region "${AWS_REGION}")
+
+  if [ "${critical_findings}" -gt 0 ]; then
+    echo "⚠ ${image_digest} has ${critical_findings} critical findings"
+  else
+    echo "✓ ${image_digest} has no critical findings"
+  fi
+
+  # Matches ecrImageScanContextKey() in container-image-construct.ts
+  CDK_CONTEXT="${CDK_CONTEXT} --context ecr-image-scan:${REPOSITORY_NAME}:${image_digest}=${critical_findings}"
+}
+
+scan_status() {
+  aws ecr describe-image-scan-findings \
+    --repository-name "${REPOSITORY_NAME}" \
+    --image-id "imageDigest=$1" \
+    --query 'imageScanStatus.status' \
+    --output text \
+    --region "${AWS_REGION}" 2>/dev/null || echo "NOT_SCANNED"
+}
+
+# The released tag is read on every deployment and passed as context, an SSM
+# context lookup would be cached in cdk.context.json. A release candidate
+# (RELEASE_TAG) is deployed in its place and only recorded by
+# publish-release.sh once the deployment succeeded, so a refused or failed
+# image never becomes the current release.
+if [ -n "${RELEASE_TAG:-}" ]; then
+  RELEASE_REF="${RELEASE_TAG}"
+  echo "✓ Deploying release candidate ${RELEASE_REF}"
+elif RELEASE_REF=$(aws ssm get-parameter \
+  --name "${RELEASE_PARAM_NAME}" \
+  --query 'Parameter.Value' \
+  --output text \
+  --region "${AWS_REGION}" 2>/dev/null); then
+  echo "✓ ${RELEASE_PARAM_NAME} is ${RELEASE_REF}"
+else
+  RELEASE_REF=""
+  echo "⚠ ${RELEASE_PARAM_NAME} not found, nothing released yet"
+fi
+
+if [ -n "${RELEASE_REF}" ]; then
+  # Matches ecrReleaseContextKey() in container-image-construct.ts
+  CDK_CONTEXT="--context ecr-release:${RELEASE_PARAM_NAME}=${RELEASE_REF}"
+  # Deployed by environments with the SSM_PARAMETER image source
+  resolve_image "${RELEASE_REF}"
+fi
+
+# Deployed by environments with the ENV image source (and recovery)
+if [ -n "${IMAGE_TAG:-}" ] && [ "${IMAGE_TAG}" != "${RELEASE_REF}" ]; then
+  resolve_image "${IMAGE_TAG}"
+fi
+
+# Export for the following steps or print for local use
+if [ -n "${GITHUB_ENV:-}" ]; then
+  echo "CDK_CONTEXT=${CDK_CONTEXT}" >> "${GITHUB_ENV}"
+else
+  echo "CDK_CONTEXT=${CDK_CONTEXT}"
+fi